@@ -4,14 +4,82 @@
  */
 import { CommandRouter } from './utils/command-router.ts'
 import type { CommandDefinition } from './utils/command-router.ts'
-import { getConfig } from './config.ts'
+import { CommandPolicy, type CommandPolicyRules } from './utils/command-policy.ts'
+import { importCustomCommand, loadCustomCommands } from './custom-commands.ts'
+import {
+  createParseOptions,
+  getConfig,
+  getConfigSource,
+  onConfigChange,
+  type ProjectConfig,
+  watchConfig,
+} from './config.ts'
 import logger from './utils/logger.ts'
 import gracefulShutdown from './utils/graceful-shutdown.ts'
 
 const COMMANDS: Record<string, CommandDefinition> = {
   help: (await import('./commands/help.ts')).default,
   version: (await import('./commands/version.ts')).default,
+  memory: (await import('./commands/memory.ts')).default,
+  config: (await import('./commands/config.ts')).default,
+  login: (await import('./commands/login.ts')).default,
+  logout: (await import('./commands/logout.ts')).default,
+  whoami: (await import('./commands/whoami.ts')).default,
+  completions: (await import('./commands/completions.ts')).default,
   // Add more commands if needed, a template for a command is in commands/example.disabled.ts
+  // Workspace and user commands are discovered at startup, see custom-commands.ts
+}
+
+/**
+ * Command policy of each APP_ENV, used for the lists that are not configured explicitly
+ */
+const COMMAND_POLICY_DEFAULTS: Record<string, Partial<CommandPolicyRules>> = {
+  // Keep tests away from the API keys stored for the user
+  test: { deny: ['example', 'login', 'logout'] },
+}
+
+/**
+ * Create the command policy from APP_ALLOWED_COMMANDS and APP_DISABLED_COMMANDS, falling back to
+ * the defaults of the environment
+ */
+function getCommandPolicy(config: ProjectConfig): CommandPolicy {
+  const defaults = COMMAND_POLICY_DEFAULTS[config.APP_ENV] ?? {}
+  const isDefault = (key: 'APP_ALLOWED_COMMANDS' | 'APP_DISABLED_COMMANDS') =>
+    (getConfigSource(key)?.source ?? 'default') === 'default'
+
+  return new CommandPolicy({
+    allow: isDefault('APP_ALLOWED_COMMANDS') && defaults.allow
+      ? defaults.allow
+      : config.APP_ALLOWED_COMMANDS,
+    deny: isDefault('APP_DISABLED_COMMANDS') && defaults.deny
+      ? defaults.deny
+      : config.APP_DISABLED_COMMANDS,
+  })
+}
+
+/**
+ * Create the router of the built-in and custom commands. The module of a TypeScript command is only
+ * imported when the command line invokes it, so that its options and subcommands are routed.
+ */
+async function createRouter(config: ProjectConfig): Promise<CommandRouter> {
+  const customCommands = await loadCustomCommands(config, Object.keys(COMMANDS))
+  for (const warning of customCommands.warnings) logger.warn(warning)
+
+  const policy = getCommandPolicy(config)
+  const commands = { ...COMMANDS, ...customCommands.commands }
+  const build = () =>
+    new CommandRouter(commands, 'help', {
+      policy,
+      strict: true,
+      globalOptions: createParseOptions(),
+    })
+
+  const { name } = build().getRoute(Deno.args)
+  const modulePath = customCommands.modules[name]
+  if (modulePath && policy.isPermitted([name])) {
+    commands[name] = await importCustomCommand(name, modulePath)
+  }
+  return build()
 }
 
 /**
@@ -19,14 +87,19 @@ const COMMANDS: Record<string, CommandDefinition> = {
  */
 async function run(): Promise<void> {
   const config = await getConfig()
-
   const appContext = {}
-  const router: CommandRouter = new CommandRouter(COMMANDS)
 
   await gracefulShutdown.startAndWrap(async () => {
+    const router = await createRouter(config)
     await router.route(Deno.args, appContext)
 
     if (config.APP_ENV === 'development') {
+      // Pick up config edits while kept alive
+      onConfigChange(
+        [],
+        ({ changed }) => logger.info(`Configuration changed: ${changed.join(', ')}`),
+      )
+      await watchConfig()
       await new Promise(() => {}) // Keep alive indefinitely (or until signal) to help with --watch mode
     }
   }, logger)
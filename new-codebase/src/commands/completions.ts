@@ -0,0 +1,111 @@
+import type { CommandContext, CommandDefinition, CommandFlag } from '../utils/command-router.ts'
+import { CommandUsageError } from '../utils/command-router.ts'
+import { describeCommandFlags, describeFlags, type FlagDescription } from '../utils/command-help.ts'
+import { COMPLETION_SHELLS, generateCompletions, isCompletionShell } from '../utils/completions.ts'
+import logger from '../utils/logger.ts'
+import {
+  CONFIG_SCHEMA,
+  type ConfigKey,
+  type ConfigKeySchema,
+  createParseOptions,
+  getConfig,
+  getFlagName,
+  getProfiles,
+} from '../config.ts'
+
+const config = await getConfig()
+
+const commandRouteDefinition: CommandDefinition = {
+  name: 'completions',
+  command: command,
+  description: `Print a shell completion script (${COMPLETION_SHELLS.join(', ')})`,
+  options: {
+    string: ['program', 'complete'],
+  },
+  flags: {
+    program: {
+      description: 'Name the program is invoked with',
+      valueName: 'name',
+      default: config.APP_NAME,
+    },
+    complete: {
+      description: 'Print the values of a flag, as the completion scripts do when completing',
+      valueName: 'flag',
+    },
+  },
+  usage: [
+    `completions <${COMPLETION_SHELLS.join('|')}> [--program <name>]`,
+    'completions --complete <flag> [command...]',
+  ],
+  examples: [
+    'completions bash >> ~/.bashrc',
+    'completions zsh > "${fpath[1]}/_New-Codebase"',
+    'completions fish > ~/.config/fish/completions/New-Codebase.fish',
+    'completions powershell >> $PROFILE',
+  ],
+}
+
+/**
+ * Get the flags every command accepts: the config flags and --help
+ */
+function getGlobalFlags(): FlagDescription[] {
+  const flags: Record<string, CommandFlag> = {
+    help: { description: 'Show the usage of the command', type: 'boolean' },
+  }
+  for (const key of Object.keys(CONFIG_SCHEMA) as ConfigKey[]) {
+    const name = getFlagName(key)
+    if (!name) continue
+    const schema: ConfigKeySchema = CONFIG_SCHEMA[key]
+    flags[name] = {
+      description: schema.description,
+      type: schema.type === 'boolean' ? 'boolean' : 'string',
+      // Profiles are listed when completing, as they depend on the config files of the workspace
+      values: key === 'APP_PROFILE' ? getProfiles : schema.enum,
+    }
+  }
+  return describeFlags(createParseOptions(), flags)
+}
+
+/**
+ * Print the values of a flag of a command, one per line
+ */
+async function printFlagValues(name: string, names: string[], routes: CommandDefinition[]) {
+  const path: CommandDefinition[] = []
+  for (const commandName of names) {
+    const candidates = path.length === 0 ? routes : path.at(-1)?.subcommands ?? []
+    const route = candidates.find((candidate) => candidate.name === commandName)
+    if (!route) break
+    path.push(route)
+  }
+
+  const flag = [...describeCommandFlags(path), ...getGlobalFlags()].find((flag) =>
+    flag.name === name
+  )
+  const values = typeof flag?.values === 'function' ? await flag.values() : flag?.values ?? []
+  for (const value of values) logger.print(value)
+}
+
+async function command({ args, routes }: CommandContext): Promise<void> {
+  if (args.complete) {
+    await printFlagValues(String(args.complete), args._.map(String).filter(Boolean), routes)
+    return
+  }
+
+  const shell = args._[0]?.toString()
+  if (!shell || !isCompletionShell(shell)) {
+    throw new CommandUsageError(
+      shell ? `Unknown shell "${shell}"` : 'Missing the shell to generate completions for',
+      ['completions'],
+    )
+  }
+  logger.print(
+    generateCompletions(shell, {
+      programName: String(args.program),
+      routes,
+      globalFlags: getGlobalFlags(),
+    }),
+  )
+}
+
+export { command, commandRouteDefinition }
+export default commandRouteDefinition
@@ -0,0 +1,231 @@
+import { bold, dim, green } from '@std/fmt/colors'
+import type { CommandContext, CommandDefinition, CommandFlag } from '../utils/command-router.ts'
+import logger from '../utils/logger.ts'
+import {
+  CONFIG_SCHEMA,
+  type ConfigCandidate,
+  type ConfigFileScope,
+  type ConfigKey,
+  type ConfigKeySchema,
+  type ConfigSource,
+  formatConfigSource,
+  formatConfigValue,
+  getConfig,
+  getConfigCandidates,
+  getConfigFiles,
+  getConfigSource,
+  getEnvName,
+  getFlagName,
+  writeConfigFileValue,
+} from '../config.ts'
+
+const config = await getConfig()
+
+/**
+ * Options of the subcommands that edit a config file
+ */
+const FILE_OPTIONS = {
+  boolean: ['global', 'local'],
+  alias: { g: 'global' },
+}
+
+const FILE_FLAGS: Record<string, CommandFlag> = {
+  global: { description: 'Edit the user config file', type: 'boolean' },
+  local: { description: 'Edit the git-ignored workspace local config file', type: 'boolean' },
+}
+
+const subcommands: CommandDefinition[] = [
+  { name: 'list', command: listConfig, description: 'List the effective configuration' },
+  {
+    name: 'get',
+    command: getValue,
+    description: 'Print the value of a key',
+    usage: ['config get <key>'],
+  },
+  {
+    name: 'set',
+    command: setValue,
+    description: 'Set a key in the workspace (or --global user, --local) config file',
+    options: FILE_OPTIONS,
+    flags: FILE_FLAGS,
+    usage: ['config set <key> <value> [--global|--local]'],
+    examples: [
+      'config set log-level debug --local',
+      'config set APP_DISABLED_COMMANDS example,login',
+    ],
+  },
+  {
+    name: 'unset',
+    command: unsetValue,
+    description: 'Remove a key from the workspace (or --global user, --local) config file',
+    options: FILE_OPTIONS,
+    flags: FILE_FLAGS,
+    usage: ['config unset <key> [--global|--local]'],
+  },
+  {
+    name: 'explain',
+    command: explainKey,
+    description: 'Show the value of a key from every source and which one is used',
+    usage: ['config explain <key>'],
+    examples: ['config explain log-level'],
+  },
+]
+
+const commandRouteDefinition: CommandDefinition = {
+  name: 'config',
+  command: command,
+  description: `Inspect and change configuration (${
+    subcommands.map(({ name }) => name).join(', ')
+  })`,
+  subcommands,
+}
+
+/**
+ * Resolve a key given on the command line, as the config key (in any case) or its flag name
+ */
+function getConfigKey(name: string | undefined, usage: string): ConfigKey {
+  if (!name) throw new Error(`Usage: config ${usage}`)
+
+  const key = (Object.keys(CONFIG_SCHEMA) as ConfigKey[]).find((key) =>
+    key.toLowerCase() === name.toLowerCase() || getFlagName(key) === name
+  )
+  if (!key) {
+    throw new Error(`Unknown config key "${name}". Run "config list" to see the known keys`)
+  }
+  return key
+}
+
+/**
+ * Get the config file edited by set and unset: the user file with --global, the workspace local
+ * file with --local, and the shared workspace file otherwise
+ */
+function getTargetFile(args: CommandContext['args']): string {
+  if (args.global && args.local) throw new Error('Use either --global or --local, not both')
+  const scope: ConfigFileScope = args.global ? 'user' : args.local ? 'local' : 'workspace'
+  return getConfigFiles(config).find((file) => file.scope === scope)?.path as string
+}
+
+/**
+ * Sources of config values from the lowest to the highest precedence, see initConfig
+ */
+const SOURCE_ORDER: ConfigSource[] = [
+  'default',
+  'credentials',
+  'file',
+  'dotenv',
+  'env',
+  'profile',
+  'argument',
+  'cli',
+]
+
+/**
+ * Warn when a value written to a config file is hidden by a source with higher precedence
+ */
+function warnIfOverridden(key: ConfigKey, path: string): void {
+  // Sources rank by the order their layers are applied in, and config files by their precedence
+  // within the file layer
+  const files = getConfigFiles(config).map((file) => file.path)
+  const rank = (source: ConfigSource, fileIndex = 0) =>
+    SOURCE_ORDER.indexOf(source) * (files.length + 1) + fileIndex
+  const rankCandidate = ({ source, origin }: ConfigCandidate) =>
+    rank(source, source === 'file' ? files.findIndex((file) => origin?.startsWith(`${file}:`)) : 0)
+
+  const overriding = getConfigCandidates(key).findLast((candidate) =>
+    rankCandidate(candidate) > rank('file', files.indexOf(path))
+  )
+  if (overriding) logger.warn(`${key} is overridden by ${formatConfigSource(overriding)}`)
+}
+
+/**
+ * List the effective configuration when no subcommand is given
+ */
+function command(context: CommandContext): void {
+  const [subcommand] = context.args._
+  if (subcommand !== undefined) {
+    throw new Error(
+      `Unknown config subcommand "${subcommand}". Expected one of: ${
+        subcommands.map(({ name }) => name).join(', ')
+      }`,
+    )
+  }
+  listConfig(context)
+}
+
+function listConfig(_context: CommandContext): void {
+  const keys = Object.keys(CONFIG_SCHEMA) as ConfigKey[]
+  const width = Math.max(...keys.map((key) => key.length))
+  for (const key of keys) {
+    const source = getConfigSource(key)
+    if (!source) continue
+    logger.print(
+      `${bold(key.padEnd(width))}  ${formatConfigValue(key, config[key])}  ${
+        dim(formatConfigSource(source))
+      }`,
+    )
+  }
+}
+
+function getValue({ args }: CommandContext): void {
+  const key = getConfigKey(args._[0]?.toString(), 'get <key>')
+  const value = config[key]
+  if (value === undefined) throw new Error(`${key} is not set`)
+  const schema: ConfigKeySchema = CONFIG_SCHEMA[key]
+  logger.print(
+    typeof value === 'string' && !schema.secret ? value : formatConfigValue(key, value),
+  )
+}
+
+async function setValue({ args }: CommandContext): Promise<void> {
+  const usage = 'set <key> <value> [--global|--local]'
+  const key = getConfigKey(args._[0]?.toString(), usage)
+  if (args._.length < 2) throw new Error(`Usage: config ${usage}`)
+
+  const path = getTargetFile(args)
+  const value = await writeConfigFileValue(path, key, args._.slice(1).join(' '))
+  logger.print(`Set ${key} to ${formatConfigValue(key, value)} in ${dim(path)}`)
+  if ((CONFIG_SCHEMA[key] as ConfigKeySchema).secret) {
+    logger.warn(`${key} is stored in plain text in ${path}`)
+  }
+  warnIfOverridden(key, path)
+}
+
+async function unsetValue({ args }: CommandContext): Promise<void> {
+  const key = getConfigKey(args._[0]?.toString(), 'unset <key> [--global|--local]')
+  const path = getTargetFile(args)
+  await writeConfigFileValue(path, key, undefined)
+  logger.print(`Unset ${key} in ${dim(path)}`)
+}
+
+function explainKey({ args }: CommandContext): void {
+  const key = getConfigKey(args._[0]?.toString(), 'explain <key>')
+  const schema: ConfigKeySchema = CONFIG_SCHEMA[key]
+  const flag = getFlagName(key)
+
+  logger.print(`${bold(key)} ${dim(schema.description)}`)
+  logger.print(dim(
+    [
+      `type ${schema.type}${schema.enum ? ` (one of: ${schema.enum.join(', ')})` : ''}`,
+      `env ${getEnvName(key)}`,
+      flag ? `flag --${flag}` : 'no flag',
+    ].join(', '),
+  ))
+
+  // Candidates are ordered by precedence, the last one is the value in use
+  const candidates = getConfigCandidates(key)
+  if (candidates.length === 0) {
+    logger.print(dim('  (not set by any source)'))
+    return
+  }
+  const width = Math.max(...candidates.map((candidate) => formatConfigSource(candidate).length))
+  candidates.forEach((candidate, index) => {
+    const isUsed = index === candidates.length - 1
+    const line = `  ${formatConfigSource(candidate).padEnd(width)}  ${
+      formatConfigValue(key, candidate.value)
+    }`
+    logger.print(isUsed ? `${green(line)}  ${bold('(used)')}` : dim(`${line}  (overridden)`))
+  })
+}
+
+export { command, commandRouteDefinition }
+export default commandRouteDefinition
@@ -12,6 +12,11 @@ const commandRouteDefinition: CommandDefinition = {
     boolean: ['flag'],
     alias: { f: 'flag' },
   },
+  flags: {
+    flag: { description: 'An example flag', type: 'boolean' },
+  },
+  usage: ['example [--flag]'],
+  examples: ['example --flag'],
 }
 
 function command({ args, routes, context }: CommandContext): void {
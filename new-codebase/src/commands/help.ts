@@ -1,18 +1,33 @@
 import { dedent } from '@qnighy/dedent'
 import { bold, dim } from '@std/fmt/colors'
-import type { CommandContext, CommandDefinition } from '../utils/command-router.ts'
+import {
+  type CommandContext,
+  type CommandDefinition,
+  CommandUsageError,
+} from '../utils/command-router.ts'
+import { formatCommandHelp } from '../utils/command-help.ts'
+import { EXIT_CODES } from '../utils/exit-codes.ts'
 import logger from '../utils/logger.ts'
-import { getConfig } from '../config.ts'
+import { suggest } from '../utils/suggest.ts'
+import { getConfig, getProfiles } from '../config.ts'
 
 const config = await getConfig()
 
 const commandRouteDefinition: CommandDefinition = {
   name: 'help',
   command: command,
-  description: 'Display help menu',
+  description: 'Display help menu, or the usage of a command',
+  usage: ['help [command] [subcommand]'],
+  examples: ['help memory add', 'memory add --help'],
 }
 
-function command({ routes }: CommandContext): void {
+function command({ args, routes }: CommandContext): void {
+  if (args._.length > 0) {
+    showCommandHelp(args._.map(String), routes)
+    return
+  }
+
+  const profiles = getProfiles()
   logger.print(dedent`\
     ${bold(config.APP_NAME)} - ${dim(config.APP_DESCRIPTION)}
     ${bold('Environment:')} ${dim(config.APP_ENV)}
@@ -21,8 +36,52 @@ function command({ routes }: CommandContext): void {
     ${bold('Usage:')}
       ${dim(config.APP_NAME)} [command] [options]
 
-    Commands:
-    ${routes.map((cmd) => `  ${cmd.name.padEnd(10)} ${cmd.description}`).join('\n')}`)
+    Commands:`)
+  const width = Math.max(10, ...routes.map((cmd) => cmd.name.length))
+  logger.print(routes.map((cmd) => `  ${cmd.name.padEnd(width)} ${cmd.description}`).join('\n'))
+  logger.print(`\nRun "${config.APP_NAME} help <command>" for the options of a command.`)
+  logger.print(
+    `\nExit codes:\n${
+      Object.values(EXIT_CODES).map(({ code, description }) =>
+        `  ${String(code).padEnd(10)} ${description}`
+      ).join('\n')
+    }`,
+  )
+
+  if (profiles.length > 0) {
+    logger.print(
+      `\nProfiles (select with --profile <name>):\n${
+        profiles.map((name) =>
+          `  ${name}${name === config.APP_PROFILE ? ` ${dim('(active)')}` : ''}`
+        ).join('\n')
+      }`,
+    )
+  }
+}
+
+/**
+ * Show the usage page of a command, given by its name and the names of its subcommands
+ *
+ * @throws {CommandUsageError} naming the closest command if a name is not a permitted command (the
+ * router throws a CommandDisabledError for a disabled command before)
+ */
+function showCommandHelp(names: string[], routes: CommandDefinition[]): void {
+  const path: CommandDefinition[] = []
+  for (const name of names) {
+    const candidates = path.length === 0 ? routes : path.at(-1)?.subcommands ?? []
+    const route = candidates.find((candidate) => candidate.name === name)
+    if (!route) {
+      const suggestion = suggest(name, candidates.map((candidate) => candidate.name))
+      throw new CommandUsageError(
+        `Unknown command "${[...path.map((command) => command.name), name].join(' ')}"${
+          suggestion ? `. Did you mean "${suggestion}"?` : ''
+        }`,
+        path.map((command) => command.name),
+      )
+    }
+    path.push(route)
+  }
+  logger.print(formatCommandHelp(path, config.APP_NAME))
 }
 
 export { command, commandRouteDefinition }
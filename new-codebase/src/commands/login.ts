@@ -0,0 +1,50 @@
+import { promptSecret } from '@std/cli/prompt-secret'
+import { dim } from '@std/fmt/colors'
+import type { CommandContext, CommandDefinition } from '../utils/command-router.ts'
+import logger from '../utils/logger.ts'
+import { formatConfigSource, getConfig, getConfigSource, getCredentialStore } from '../config.ts'
+import { CREDENTIAL_PROVIDERS, toCredentialProvider, validateApiKey } from '../credentials.ts'
+
+const config = await getConfig()
+
+const commandRouteDefinition: CommandDefinition = {
+  name: 'login',
+  command: command,
+  description: `Store an API key in the encrypted credential store (${
+    Object.keys(CREDENTIAL_PROVIDERS).join(', ')
+  })`,
+  usage: [`login [${Object.keys(CREDENTIAL_PROVIDERS).join('|')}]`],
+  examples: ['login', 'login openai'],
+}
+
+/**
+ * Read the API key without echoing it, or from stdin when it is piped (e.g. in CI)
+ */
+async function readApiKey(label: string): Promise<string> {
+  const input = Deno.stdin.isTerminal()
+    ? promptSecret(`${label} API key:`)
+    : await new Response(Deno.stdin.readable).text()
+  return input?.trim() ?? ''
+}
+
+async function command({ args }: CommandContext): Promise<void> {
+  const provider = toCredentialProvider(args._[0]?.toString())
+  const { label, configKey } = CREDENTIAL_PROVIDERS[provider]
+
+  const apiKey = await readApiKey(label)
+  if (!apiKey) throw new Error('No API key given')
+  validateApiKey(provider, apiKey)
+
+  const store = getCredentialStore(config)
+  await store.set(provider, apiKey)
+  logger.print(`Logged in to ${label}, the API key is stored in ${dim(store.getPath())}`)
+
+  // The store is only a fallback, a key set anywhere else is still used instead
+  const source = getConfigSource(configKey)
+  if (source && source.source !== 'default' && source.source !== 'credentials') {
+    logger.warn(`${configKey} from ${formatConfigSource(source)} is used instead of the stored key`)
+  }
+}
+
+export { command, commandRouteDefinition }
+export default commandRouteDefinition
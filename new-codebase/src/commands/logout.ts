@@ -0,0 +1,43 @@
+import { dim } from '@std/fmt/colors'
+import type { CommandContext, CommandDefinition } from '../utils/command-router.ts'
+import logger from '../utils/logger.ts'
+import { getConfig, getCredentialStore } from '../config.ts'
+import {
+  CREDENTIAL_PROVIDERS,
+  type CredentialProviderName,
+  toCredentialProvider,
+} from '../credentials.ts'
+
+const config = await getConfig()
+
+const commandRouteDefinition: CommandDefinition = {
+  name: 'logout',
+  command: command,
+  description: 'Remove a stored API key (--all for every provider)',
+  options: {
+    boolean: ['all'],
+  },
+  flags: {
+    all: { description: 'Remove the API keys of every provider', type: 'boolean' },
+  },
+  usage: [`logout [${Object.keys(CREDENTIAL_PROVIDERS).join('|')}]`, 'logout --all'],
+}
+
+async function command({ args }: CommandContext): Promise<void> {
+  const providers: CredentialProviderName[] = args.all
+    ? Object.keys(CREDENTIAL_PROVIDERS) as CredentialProviderName[]
+    : [toCredentialProvider(args._[0]?.toString())]
+
+  const store = getCredentialStore(config)
+  for (const provider of providers) {
+    const { label } = CREDENTIAL_PROVIDERS[provider]
+    logger.print(
+      (await store.remove(provider))
+        ? `Logged out of ${label}, the stored API key was removed`
+        : dim(`No ${label} API key is stored`),
+    )
+  }
+}
+
+export { command, commandRouteDefinition }
+export default commandRouteDefinition
@@ -0,0 +1,321 @@
+import { bold, dim, green, red } from '@std/fmt/colors'
+import type { CommandContext, CommandDefinition, CommandFlag } from '../utils/command-router.ts'
+import logger from '../utils/logger.ts'
+import Memory, { MemoryFileType } from '../memory.ts'
+import { formatFinding } from '../utils/secret-scanner.ts'
+
+/**
+ * Maps the values accepted by --scope to memory file types
+ */
+const SCOPES: Record<string, MemoryFileType> = {
+  policy: MemoryFileType.POLICY,
+  workspace: MemoryFileType.WORKSPACE,
+  local: MemoryFileType.WORKSPACE_LOCAL,
+  user: MemoryFileType.USER,
+}
+
+const allScopes = Object.values(SCOPES)
+const writableScopes = allScopes.filter((type) => type !== MemoryFileType.POLICY)
+
+/**
+ * Options of the subcommands that combine memory for the files given with --for,
+ * not --path which is the global flag of APP_PATH
+ */
+const PATH_OPTIONS = {
+  string: ['for'],
+  collect: ['for'],
+  alias: { f: 'for' },
+}
+
+const PATH_FLAGS: Record<string, CommandFlag> = {
+  for: {
+    description: 'Also include the memory of the directories of this file or directory',
+    valueName: 'path',
+  },
+}
+
+const subcommands: CommandDefinition[] = [
+  {
+    name: 'add',
+    command: addEntry,
+    description: 'Add an entry to a memory file',
+    usage: ['memory add <text> [--scope workspace|local|user]'],
+    examples: ['memory add "Use tabs for indentation"', 'memory add --scope user "Answer briefly"'],
+  },
+  { name: 'list', command: listEntries, description: 'List the entries of memory files' },
+  {
+    name: 'remove',
+    command: removeEntry,
+    description: 'Remove an entry by its id',
+    usage: ['memory remove <id> [--scope workspace|local|user]'],
+  },
+  { name: 'edit', command: editFile, description: 'Open a memory file in the editor' },
+  {
+    name: 'show',
+    command: showMemory,
+    description: 'Show the combined memory (the default)',
+    options: PATH_OPTIONS,
+    flags: PATH_FLAGS,
+    examples: ['memory show --for src/main.ts'],
+  },
+  { name: 'init', command: initMemory, description: 'Create the workspace memory file' },
+  {
+    name: 'import',
+    command: importFiles,
+    description: 'Import instruction files of other assistants',
+  },
+  { name: 'scan', command: scanFiles, description: 'Scan memory files for secrets' },
+  {
+    name: 'tokens',
+    command: showTokens,
+    description: 'Show the estimated tokens of each memory file',
+    options: PATH_OPTIONS,
+    flags: PATH_FLAGS,
+  },
+  {
+    name: 'history',
+    command: showHistory,
+    description: 'Show the recorded revisions of a memory file',
+  },
+  {
+    name: 'diff',
+    command: showDiff,
+    description: 'Show the changes since a revision',
+    usage: ['memory diff <rev> [--scope workspace|local|user]'],
+  },
+  {
+    name: 'undo',
+    command: undoChange,
+    description: 'Restore the previous (or a given) revision',
+    usage: ['memory undo [rev] [--scope workspace|local|user]'],
+  },
+]
+
+const commandRouteDefinition: CommandDefinition = {
+  name: 'memory',
+  command: command,
+  description: `Manage memory files (${subcommands.map(({ name }) => name).join(', ')})`,
+  options: {
+    string: ['scope'],
+    alias: { s: 'scope' },
+  },
+  flags: {
+    scope: {
+      description: `Memory file to use: ${Object.keys(SCOPES).join(', ')}`,
+      valueName: 'scope',
+      values: Object.keys(SCOPES),
+    },
+  },
+  subcommands,
+}
+
+/**
+ * Resolve the --scope flag to memory file types, defaulting to the given scopes when it is absent
+ */
+function getScopes(scope: unknown, defaults: MemoryFileType[]): MemoryFileType[] {
+  if (scope === undefined || scope === '') return defaults
+  const type = SCOPES[String(scope)]
+  if (!type) {
+    throw new Error(
+      `Invalid memory scope "${scope}". Expected one of: ${Object.keys(SCOPES).join(', ')}`,
+    )
+  }
+  return [type]
+}
+
+/**
+ * Create a memory instance with all memory files loaded
+ */
+async function loadMemory(): Promise<Memory> {
+  const memory = new Memory()
+  await memory.loadAll()
+  return memory
+}
+
+/**
+ * Show the combined memory when no subcommand is given
+ */
+async function command(context: CommandContext): Promise<void> {
+  const [subcommand] = context.args._
+  if (subcommand !== undefined) {
+    throw new Error(
+      `Unknown memory subcommand "${subcommand}". Expected one of: ${
+        subcommands.map(({ name }) => name).join(', ')
+      }`,
+    )
+  }
+  await showMemory(context)
+}
+
+async function addEntry({ args }: CommandContext): Promise<void> {
+  const content = args._.join(' ').trim()
+  if (!content) throw new Error('Usage: memory add <text> [--scope workspace|local|user]')
+
+  const [type] = getScopes(args.scope, [MemoryFileType.WORKSPACE])
+  const memory = await loadMemory()
+  if (!(await memory.addMemory(content, type))) throw new Error('Failed to add memory')
+}
+
+async function listEntries({ args }: CommandContext): Promise<void> {
+  const memory = await loadMemory()
+  for (const type of getScopes(args.scope, allScopes)) {
+    const file = memory.getMemoryFile(type)
+    const entries = memory.listEntries(type)
+    if (!file?.exists && args.scope === undefined) continue
+
+    const managed = file?.managed ? ` ${dim('[managed, read-only]')}` : ''
+    logger.print(`${bold(type)} ${dim(file?.path ?? '')}${managed}`)
+    logger.print(
+      entries.length > 0
+        ? entries.map((entry) => `  ${entry.index}. ${dim(`[${entry.id}]`)} ${entry.text}`)
+          .join('\n')
+        : dim('  (no entries)'),
+    )
+  }
+}
+
+async function removeEntry({ args }: CommandContext): Promise<void> {
+  const [id] = args._.map(String)
+  if (!id) throw new Error('Usage: memory remove <id> [--scope workspace|local|user]')
+
+  const memory = await loadMemory()
+  const candidates = getScopes(args.scope, writableScopes).filter((type) =>
+    memory.listEntries(type).some((entry) => entry.id.startsWith(id))
+  )
+  if (candidates.length === 0) throw new Error(`No memory entry with id ${id}`)
+  if (candidates.length > 1) {
+    throw new Error(
+      `Memory entry id ${id} exists in several scopes (${
+        candidates.join(', ')
+      }), use --scope to choose one`,
+    )
+  }
+  if (!(await memory.removeMemory(id, candidates[0]))) {
+    throw new Error(`Failed to remove memory entry ${id}`)
+  }
+}
+
+async function editFile({ args }: CommandContext): Promise<void> {
+  const [type] = getScopes(args.scope, [MemoryFileType.WORKSPACE])
+  const memory = await loadMemory()
+  if (!(await memory.openInEditor(type))) throw new Error('Failed to edit memory')
+}
+
+async function showMemory({ args }: CommandContext): Promise<void> {
+  // Conditional memory and nested memory files are included for the paths given with --for
+  const paths = (args.for as string[] | undefined) ?? []
+  const memory = await loadMemory()
+  await memory.loadNestedMemory(paths)
+
+  const sections = memory.getMemorySections(paths)
+  if (sections.length === 0) {
+    logger.print(dim('No memory files found'))
+    return
+  }
+  logger.print(
+    sections.map(({ title, file, content }) =>
+      `${bold(`# ${title}`)} ${dim(`(${file.path})`)}\n${content.trim()}`
+    ).join('\n\n'),
+  )
+}
+
+async function initMemory(_context: CommandContext): Promise<void> {
+  const memory = await loadMemory()
+  if (!(await memory.initializeWorkspaceMemory())) {
+    throw new Error('Failed to initialize workspace memory')
+  }
+}
+
+async function importFiles(_context: CommandContext): Promise<void> {
+  // Copy AGENTS.md, CLAUDE.md, Cursor and Copilot instructions into workspace memory once
+  const memory = await loadMemory()
+  const imported = await memory.importCompatibilityFiles()
+  logger.print(
+    imported.length > 0
+      ? `Imported ${imported.length} instruction file(s). The originals can now be removed.`
+      : dim('No instruction files to import'),
+  )
+}
+
+async function scanFiles(_context: CommandContext): Promise<void> {
+  // Audit existing memory files (and the files they import) for secrets
+  const memory = await loadMemory()
+  const findings = await memory.scanMemory()
+  if (findings.length === 0) {
+    logger.print(dim('No potential secrets found in memory files'))
+    return
+  }
+  logger.print(findings.map(formatFinding).join('\n'))
+  throw new Error(`Found ${findings.length} potential secret(s) in memory files`)
+}
+
+async function showTokens({ args }: CommandContext): Promise<void> {
+  // Report the tokens each memory file contributes, for the same paths as `show`
+  const paths = (args.for as string[] | undefined) ?? []
+  const memory = await loadMemory()
+  await memory.loadNestedMemory(paths)
+
+  const report = memory.getTokenReport(paths)
+  const row = (included: number, total: number, status: string) =>
+    `${`${included}`.padStart(7)} / ${`${total}`.padEnd(7)} ${status.padEnd(9)}`
+
+  for (const { title, file, tokens, includedTokens, status } of report.sections) {
+    logger.print(`${row(includedTokens, tokens, status)} ${bold(title)} ${dim(file.path)}`)
+  }
+  logger.print(
+    `${row(report.includedTokens, report.tokens, '')} ${bold('Total')} ${
+      dim(report.budget > 0 ? `(budget ${report.budget})` : '(no budget)')
+    }`,
+  )
+}
+
+async function showHistory({ args }: CommandContext): Promise<void> {
+  const [type] = getScopes(args.scope, [MemoryFileType.WORKSPACE])
+  const memory = await loadMemory()
+  const revisions = await memory.getHistory(type)
+  if (revisions.length === 0) {
+    logger.print(dim(`No history for ${memory.getMemoryFile(type)?.path}`))
+    return
+  }
+  logger.print(
+    revisions.toReversed().map(({ rev, createdAt, operation, size, restoredFrom }) =>
+      `${bold(`${rev}`.padStart(4))}  ${dim(new Date(createdAt).toLocaleString())}  ${
+        operation.padEnd(8)
+      } ${dim(`${size} bytes`)}${restoredFrom ? dim(` (restored revision ${restoredFrom})`) : ''}`
+    ).join('\n'),
+  )
+}
+
+async function showDiff({ args }: CommandContext): Promise<void> {
+  const rev = Number.parseInt(String(args._[0]))
+  if (Number.isNaN(rev)) {
+    throw new Error('Usage: memory diff <rev> [--scope workspace|local|user]')
+  }
+
+  const [type] = getScopes(args.scope, [MemoryFileType.WORKSPACE])
+  const memory = await loadMemory()
+  const diff = await memory.diffRevision(type, rev)
+  logger.print(
+    diff
+      ? diff.split('\n').map((line) =>
+        line.startsWith('+') ? green(line) : line.startsWith('-') ? red(line) : line
+      ).join('\n')
+      : dim(`No changes since revision ${rev}`),
+  )
+}
+
+async function undoChange({ args }: CommandContext): Promise<void> {
+  const rev = args._[0] === undefined ? undefined : Number.parseInt(String(args._[0]))
+  if (Number.isNaN(rev)) {
+    throw new Error('Usage: memory undo [rev] [--scope workspace|local|user]')
+  }
+
+  const [type] = getScopes(args.scope, [MemoryFileType.WORKSPACE])
+  const memory = await loadMemory()
+  if ((await memory.undo(type, rev)) === undefined) {
+    throw new Error('Failed to undo memory change')
+  }
+}
+
+export { command, commandRouteDefinition }
+export default commandRouteDefinition
@@ -0,0 +1,39 @@
+import { bold, dim, green } from '@std/fmt/colors'
+import type { CommandContext, CommandDefinition } from '../utils/command-router.ts'
+import logger from '../utils/logger.ts'
+import { formatConfigSource, getConfig, getConfigSource } from '../config.ts'
+import { CREDENTIAL_PROVIDERS } from '../credentials.ts'
+
+const config = await getConfig()
+
+const commandRouteDefinition: CommandDefinition = {
+  name: 'whoami',
+  command: command,
+  description: 'Show which API keys are configured and where they come from',
+}
+
+/**
+ * Show just enough of an API key to tell keys apart
+ */
+function previewApiKey(apiKey: string): string {
+  return apiKey.length > 16 ? `${apiKey.slice(0, 7)}…${apiKey.slice(-4)}` : '********'
+}
+
+function command(_context: CommandContext): void {
+  const width = Math.max(...Object.values(CREDENTIAL_PROVIDERS).map(({ label }) => label.length))
+
+  for (const { label, configKey } of Object.values(CREDENTIAL_PROVIDERS)) {
+    const apiKey = config[configKey]
+    const source = getConfigSource(configKey)
+    logger.print(
+      apiKey && source
+        ? `${bold(label.padEnd(width))}  ${green(previewApiKey(apiKey))}  ${
+          dim(formatConfigSource(source))
+        }`
+        : `${bold(label.padEnd(width))}  ${dim(`not logged in (run login or set ${configKey})`)}`,
+    )
+  }
+}
+
+export { command, commandRouteDefinition }
+export default commandRouteDefinition
@@ -3,218 +3,1042 @@
  *
  * Configuration management module that provides a flexible way to load and access configuration values
  *
+ * CONFIGURATION SCHEMA: Every config key is declared in CONFIG_SCHEMA with its type, default value,
+ * allowed values, description, whether it is secret, and the environment variable and command line
+ * flag it is read from. Values from every source are coerced to the declared type (numbers,
+ * booleans, comma-separated arrays, JSON objects) and validated against the schema, and the source
+ * of each resolved value is remembered (see getConfigSource) so errors and diagnostics can name it.
+ *
  * CONFIGURATION SOURCES: Configuration values can come from multiple optional sources, loaded in this order
  * (highest to lowest precedence):
  * 1. Command line arguments (--workspace, etc.)
  * 2. Values from config argument passed to initConfig
- * 3. Values from Deno.env environment variables with the CONFIG_PREFIX
- * 4. Default values
+ * 3. The profile selected with APP_PROFILE (e.g. `--profile review`), from the config files
+ * 4. Values from Deno.env environment variables, named after the key with the APP_ prefix replaced by
+ *    the prefix of APP_NAME (see getEnvName), e.g. NEW_CODEBASE_LOG_LEVEL for APP_LOG_LEVEL
+ * 5. `.env` files in the workspace (see getDotenvFiles), most specific first:
+ *    a. `.env.<APP_ENV>.local`
+ *    b. `.env.<APP_ENV>`
+ *    c. `.env.local`
+ *    d. `.env`
+ * 6. JSONC config files named APP_CONFIG_FILE_NAME (see getConfigFiles), most specific first:
+ *    a. Workspace local file, e.g. `new-codebase.local.json` in the workspace (personal, git-ignored)
+ *    b. Workspace file, e.g. `new-codebase.json` in the workspace (shared, committed)
+ *    c. User file, e.g. `~/.new-codebase/new-codebase.json`
+ * 7. API keys stored with the `login` command (see getCredentialStore)
+ * 8. Default values
+ *
+ * `.env` files are parsed with @std/dotenv, so values can reference variables with `$NAME` or
+ * `${NAME}`, defined in the same or an earlier file or in the environment. The APP_ENV of the
+ * environment, argument or command line picks the per-environment files; otherwise APP_ENV set in
+ * `.env` or `.env.local` does.
+ *
+ * Config files contain an object of config values, with comments allowed, and optionally named
+ * profiles of values that are applied only when selected:
+ * ```jsonc
+ * {
+ *   "APP_LOG_LEVEL": "debug",
+ *   "APP_MEMORY_TOKEN_BUDGET": 20000,
+ *   "APP_DISABLED_COMMANDS": ["example"],
+ *   "profiles": {
+ *     "review": { "APP_MEMORY_TOKEN_BUDGET": 50000 }
+ *   }
+ * }
+ * ```
+ * A profile defined in several files is merged, the more specific file winning. Selecting a
+ * profile that no config file defines is an error.
+ * The files are located using APP_NAME, APP_CONFIG_FILE_NAME and APP_WORKSPACE_PATH from the other
+ * sources, so setting those in a config file does not change which files are loaded.
+ *
+ * The values read from every source are kept (see getConfigCandidates) so the `config` command can
+ * explain which source won, and writeConfigFileValue edits a config file without losing its comments.
+ *
+ * The configuration is loaded once and shared: getConfig always returns the same object.
+ * reloadConfig re-runs the layering and updates that object in place, notifying subscribers of
+ * onConfigChange about the keys that changed, and watchConfig reloads it whenever one of the
+ * config, .env or credentials files changes (for long-running processes).
+ *
+ * Only the environment variables of known keys are read. Other variables with the prefix of
+ * APP_NAME (in the environment or .env files) are most likely typos and produce warnings with
+ * suggestions (see getConfigWarnings), while unrelated variables such as another tool's APP_* are
+ * ignored.
  */
 
+import { debounce, type DebouncedFunction } from '@std/async'
 import { parseArgs } from '@std/cli'
-import { dirname } from '@std/path'
+import { parse as parseDotenv } from '@std/dotenv'
+import { parse as parseJsonc } from '@std/jsonc'
+import { basename, dirname, extname, join, resolve } from '@std/path'
+import { exists } from '@std/fs'
 import { findPackagePathFromPath } from './utils/package-info.ts'
+import { suggest } from './utils/suggest.ts'
+import logger from './utils/logger.ts'
+import gracefulShutdown from './utils/graceful-shutdown.ts'
+import {
+  CREDENTIAL_PROVIDERS,
+  type CredentialProviderName,
+  CredentialStore,
+} from './credentials.ts'
+import { writeTextFileAtomic } from './utils/atomic-write.ts'
+import { removeJsoncProperty, setJsoncProperty } from './utils/jsonc-edit.ts'
 
 const CONFIG_SUFFIX = 'APP_'
+const CREDENTIALS_FILE_NAME = 'credentials.json'
+// Delay (ms) to wait for further file system events before reloading watched config files
+const WATCH_DEBOUNCE = 100
 // Singleton config instance
 let configInstance: ProjectConfig | null = null
 // Shared initialization promise to ensure one-time initialization
 let initPromise: Promise<ProjectConfig> | null = null
+// Where each resolved config value came from
+let configSources = new Map<ConfigKey, ConfigValueSource>()
+// Every value read for each config key, from the lowest to the highest precedence source
+let configCandidates = new Map<ConfigKey, ConfigCandidate[]>()
+// The .env files applied to the configuration, from the lowest to the highest precedence
+let dotenvFiles: string[] = []
+// Names of the profiles defined in the loaded config files
+let configProfiles: string[] = []
+// Problems with the configuration that do not prevent loading it, such as unknown env variables
+let configWarnings: string[] = []
+// The config argument of the last initialization, reused when reloading
+let configArgument: Partial<ProjectConfig> = {}
+// Config files, .env files and the credentials file the configuration is read from (whether they exist or not)
+let configPaths: string[] = []
+// Subscribers to config changes, with the keys they are interested in (all keys when empty)
+const changeListeners = new Set<{ keys: ConfigKey[]; listener: ConfigChangeListener }>()
+let configWatcher: Deno.FsWatcher | undefined
+let reloadOnChange: DebouncedFunction<[]> | undefined
+let hasShutdownHandler = false
 
 // Finds this binary or project directory, both locally and remotely by searching for the nearest deno.jsonc
 // NOTE: for deno compile binaries, this will be the directory of the deno executable and deno.jsonc **MUST** be an embedded resource
 const projectPath = async () => dirname(await findPackagePathFromPath())
 
-// Default configuration values
-const DEFAULT_VALUES = {
-  APP_NAME: 'New-Codebase',
-  APP_VERSION: '0.0.1',
-  APP_DESCRIPTION: 'A new AI codebase for Deno',
-  APP_GITHUB_REPO: 'zackiles/new-codebase',
-  APP_CONFIG_FILE_NAME: 'new-codebase.json',
-  APP_ENV: Deno.env.get('DENO_ENV') || 'production',
-  APP_LOG_LEVEL: 'info',
-  APP_WORKSPACE_PATH: Deno.cwd(),
-  APP_DISABLED_COMMANDS: 'example', //  disabled because 'example' is the example/template command
-  APP_PATH: projectPath,
-
-  ANTHROPIC_API_KEY: ''
-}
-
-/**
- * Configuration interface representing all environment variables used in this project
- */
-interface ProjectConfig {
-  APP_NAME: string
-  APP_VERSION: string
-  /** Description of the project */
-  APP_DESCRIPTION: string
-  /** Current execution environment (development, production, or test) */
-  APP_ENV: string
-  /** GitHub repository name (e.g., "zackiles/deno-kit") */
-  APP_GITHUB_REPO: string
-  /** Name of the workspace config file (e.g., "kit.json") */
-  APP_CONFIG_FILE_NAME: string
-  /** Path to the project's main module or CLI executable */
-  APP_PATH: string
-  /** Comma-separated list of disabled commands. This is helpful when this project is used as a MCP Server that needs to limit tool calls/commands */
-  APP_DISABLED_COMMANDS: string
-  /** Path to the workspace (the directory the CLI is managing for the user) directory */
-  APP_WORKSPACE_PATH: string
-  /** Log level for controlling verbosity (DEBUG, INFO, WARN, ERROR, SILENT) */
-  APP_LOG_LEVEL: string
-  ANTHROPIC_API_KEY: ''
-}
-
-/**
- * Ensures an object matches the ProjectConfig interface
- * @param config The object to validate
- * @returns True if valid, throws error if invalid
- * @throws {Error} with details about missing required configuration
- */
-function assertProjectConfig(config: unknown): config is ProjectConfig {
-  if (!config || typeof config !== 'object') {
-    throw new Error('Configuration must be a non-null object')
+/**
+ * Types a config value can be coerced to. Arrays are written as comma-separated lists and objects
+ * as JSON in environment variables and command line arguments.
+ */
+type ConfigValueType = 'string' | 'number' | 'boolean' | 'array' | 'object'
+
+/**
+ * Declaration of a config key
+ */
+type ConfigKeySchema = {
+  type: ConfigValueType
+  description: string
+  /** Default value, or a (possibly async) function computing it */
+  default: unknown
+  /** Allowed values (of the items, for arrays), matched case-insensitively */
+  enum?: readonly string[]
+  /** Whether the value must be set (for strings, non-empty) */
+  required?: boolean
+  /** Whether the value is sensitive and must not be shown in diagnostics */
+  secret?: boolean
+  /** Environment variable the value is read from, defaults to the key with APP_ replaced by the env prefix */
+  env?: string
+  /** Command line flag the value is read from, defaults to the key without APP_ in kebab-case, false for none */
+  flag?: string | false
+}
+
+// Config schema, including default values
+const CONFIG_SCHEMA = {
+  APP_NAME: {
+    type: 'string',
+    description: 'Name of the project',
+    default: 'New-Codebase',
+    required: true,
+  },
+  APP_VERSION: {
+    type: 'string',
+    description: 'Version of the project',
+    default: '0.0.1',
+    required: true,
+  },
+  APP_DESCRIPTION: {
+    type: 'string',
+    description: 'Description of the project',
+    default: 'A new AI codebase for Deno',
+    required: true,
+  },
+  APP_GITHUB_REPO: {
+    type: 'string',
+    description: 'GitHub repository name (e.g., "zackiles/deno-kit")',
+    default: 'zackiles/new-codebase',
+    required: true,
+  },
+  APP_CONFIG_FILE_NAME: {
+    type: 'string',
+    description: 'Name of the workspace config file (e.g., "kit.json")',
+    default: 'new-codebase.json',
+    required: true,
+  },
+  APP_ENV: {
+    type: 'string',
+    description:
+      'Current execution environment, e.g. "development", "production", "test" or "staging"',
+    default: () => Deno.env.get('DENO_ENV') || 'production',
+    required: true,
+  },
+  APP_LOG_LEVEL: {
+    type: 'string',
+    description: 'Log level for controlling verbosity',
+    default: 'info',
+    enum: ['debug', 'info', 'warn', 'error', 'silent'],
+    required: true,
+  },
+  APP_WORKSPACE_PATH: {
+    type: 'string',
+    description: 'Path to the workspace (the directory the CLI is managing for the user) directory',
+    default: () => Deno.cwd(),
+    required: true,
+  },
+  APP_PROFILE: {
+    type: 'string',
+    description: 'Name of the profile (from the "profiles" of the config files) to apply',
+    default: '',
+  },
+  APP_ALLOWED_COMMANDS: {
+    type: 'array',
+    description:
+      'Permitted commands (patterns such as "memory *"), all commands when empty; help is always permitted. This is helpful when this project is used as a MCP Server that needs to limit tool calls/commands',
+    default: [],
+  },
+  APP_DISABLED_COMMANDS: {
+    type: 'array',
+    description:
+      'Disabled commands (patterns such as "memory *"), taking precedence over APP_ALLOWED_COMMANDS; help cannot be disabled',
+    default: ['example'], // disabled because 'example' is the example/template command
+  },
+  APP_TRUSTED_WORKSPACES: {
+    type: 'array',
+    description:
+      'Workspaces whose TypeScript commands may run, only read from the user config file, the environment and the command line so that a workspace cannot trust itself',
+    default: [],
+  },
+  APP_PATH: {
+    type: 'string',
+    description: "Path to the project's main module or CLI executable",
+    default: projectPath,
+    required: true,
+  },
+  APP_MEMORY_COMPATIBILITY: {
+    type: 'boolean',
+    description:
+      'Whether memory also loads instruction files of other assistants (AGENTS.md, CLAUDE.md, ...)',
+    default: false,
+  },
+  APP_MEMORY_SECRETS: {
+    type: 'string',
+    description:
+      'How memory entries containing secrets are handled when they are added, secrets in injected memory are always redacted',
+    default: 'refuse',
+    enum: ['refuse', 'redact', 'confirm'],
+  },
+  APP_MEMORY_TOKEN_BUDGET: {
+    type: 'number',
+    description: 'Maximum estimated tokens of the combined memory, 0 for no limit',
+    default: 10000,
+  },
+  APP_MEMORY_POLICY_PATH: {
+    type: 'string',
+    description:
+      'Path of the managed policy memory file, overriding the system-wide location (e.g. "/etc/new-codebase/NEW-CODEBASE.md")',
+    default: '',
+  },
+  APP_MEMORY_HISTORY_LIMIT: {
+    type: 'number',
+    description:
+      'Maximum number of revisions kept in the memory history per memory file, 0 for no limit',
+    default: 50,
+  },
+  APP_MEMORY_HISTORY_MAX_AGE: {
+    type: 'number',
+    description: 'Maximum age in days of revisions kept in the memory history, 0 for no limit',
+    default: 90,
+  },
+  APP_MEMORY_PRIORITY: {
+    type: 'array',
+    description:
+      'Memory file types from highest to lowest priority when the memory token budget is exceeded',
+    enum: [
+      'policy',
+      'workspace',
+      'workspace-local',
+      'user',
+      'rule',
+      'agents',
+      'claude',
+      'cursor-rules',
+      'cursor-rule',
+      'copilot',
+    ],
+    default: [
+      'workspace-local',
+      'workspace',
+      'rule',
+      'cursor-rule',
+      'agents',
+      'claude',
+      'cursor-rules',
+      'copilot',
+      'user',
+    ],
+  },
+  ANTHROPIC_API_KEY: {
+    type: 'string',
+    description: 'API key for the Anthropic API',
+    default: '',
+    secret: true,
+    env: 'ANTHROPIC_API_KEY',
+    flag: false,
+  },
+  OPENAI_API_KEY: {
+    type: 'string',
+    description: 'API key for the OpenAI API',
+    default: '',
+    secret: true,
+    env: 'OPENAI_API_KEY',
+    flag: false,
+  },
+} as const satisfies Record<string, ConfigKeySchema>
+
+type ConfigKey = keyof typeof CONFIG_SCHEMA
+
+/**
+ * The type of a resolved config value, as declared by its schema
+ */
+type ConfigValueOf<S extends ConfigKeySchema> = S extends { enum: readonly (infer E)[] }
+  ? S['type'] extends 'array' ? E[] : E
+  : S['type'] extends 'number' ? number
+  : S['type'] extends 'boolean' ? boolean
+  : S['type'] extends 'array' ? string[]
+  : S['type'] extends 'object' ? Record<string, unknown>
+  : string
+
+/**
+ * Configuration interface representing all config values used in this project, derived from
+ * CONFIG_SCHEMA (see it for the description of each key)
+ */
+type ProjectConfig = {
+  -readonly [K in ConfigKey]: ConfigValueOf<typeof CONFIG_SCHEMA[K]>
+}
+
+/**
+ * Source a config value was resolved from
+ */
+type ConfigSource =
+  | 'default'
+  | 'credentials'
+  | 'file'
+  | 'dotenv'
+  | 'env'
+  | 'profile'
+  | 'argument'
+  | 'cli'
+
+/**
+ * A change of the configuration after it was reloaded
+ */
+type ConfigChangeEvent = {
+  /** Keys whose value changed */
+  changed: ConfigKey[]
+  /** The configuration before the reload */
+  previous: ProjectConfig
+  /** The current configuration */
+  config: ProjectConfig
+}
+
+type ConfigChangeListener = (event: ConfigChangeEvent) => void
+
+type ConfigValueSource = {
+  source: ConfigSource
+  /** Where exactly: the file path (and line), environment variable or command line flag */
+  origin?: string
+}
+
+/**
+ * A config value as read from a source, before coercion
+ */
+type RawConfigValue = ConfigValueSource & { value: unknown }
+
+/**
+ * A value read for a config key from one source, whether it was used or overridden
+ */
+type ConfigCandidate = RawConfigValue
+
+/**
+ * Scope of a config file, from lowest to highest precedence: user, workspace, local
+ */
+type ConfigFileScope = 'user' | 'workspace' | 'local'
+
+type ConfigFile = {
+  scope: ConfigFileScope
+  path: string
+}
+
+/**
+ * The raw config values of a config file, and of each profile it defines
+ */
+type ConfigFileValues = {
+  values: Map<ConfigKey, RawConfigValue>
+  profiles: Map<string, Map<ConfigKey, RawConfigValue>>
+}
+
+/**
+ * Property of config files holding named profiles
+ */
+const PROFILES_KEY = 'profiles'
+
+const isConfigKey = (key: string): key is ConfigKey => Object.hasOwn(CONFIG_SCHEMA, key)
+
+/**
+ * Gets the prefix of the environment variables of an app, e.g. NEW_CODEBASE_ for New-Codebase
+ */
+function getEnvPrefix(appName: string): string {
+  return `${appName.toUpperCase().replace(/[^A-Z0-9]+/g, '_').replace(/^_+|_+$/g, '')}_`
+}
+
+// Prefix of the environment variables of config keys, derived from APP_NAME when config is loaded
+let envPrefix = getEnvPrefix(CONFIG_SCHEMA.APP_NAME.default)
+
+/**
+ * Gets the name of a config key without the APP_ prefix, which both its environment variable and
+ * its command line flag are derived from, e.g. LOG_LEVEL for APP_LOG_LEVEL
+ */
+function getBaseName(key: ConfigKey): string {
+  return key.startsWith(CONFIG_SUFFIX) ? key.slice(CONFIG_SUFFIX.length) : key
+}
+
+/**
+ * Gets the environment variable of a config key, e.g. NEW_CODEBASE_LOG_LEVEL for APP_LOG_LEVEL.
+ * Keys without the APP_ prefix (such as ANTHROPIC_API_KEY) are read from the variable of the
+ * same name.
+ */
+function getEnvName(key: ConfigKey): string {
+  const schema: ConfigKeySchema = CONFIG_SCHEMA[key]
+  if (schema.env) return schema.env
+  return key.startsWith(CONFIG_SUFFIX) ? `${envPrefix}${getBaseName(key)}` : key
+}
+
+/**
+ * Gets the command line flag of a config key, if it has one, e.g. log-level for APP_LOG_LEVEL
+ */
+function getFlagName(key: ConfigKey): string | undefined {
+  const schema: ConfigKeySchema = CONFIG_SCHEMA[key]
+  if (schema.flag === false) return undefined
+  return schema.flag ?? getBaseName(key).toLowerCase().replace(/_/g, '-')
+}
+
+/**
+ * Formats a value for messages, hiding the values of secret keys
+ */
+function formatConfigValue(key: ConfigKey, value: unknown): string {
+  if ((CONFIG_SCHEMA[key] as ConfigKeySchema).secret && value !== '') return '********'
+  return typeof value === 'string' ? `"${value}"` : JSON.stringify(value)
+}
+
+/**
+ * Describes the source of a config value for messages, e.g. "env APP_LOG_LEVEL"
+ */
+function formatConfigSource({ source, origin }: ConfigValueSource): string {
+  return origin ? `${source} ${origin}` : source
+}
+
+/**
+ * Coerces a raw value to the type declared by the schema of a config key
+ *
+ * @param key The config key
+ * @param value The raw value
+ * @returns The coerced value
+ * @throws {Error} describing the expected value if the value cannot be coerced or is not allowed
+ */
+function coerceConfigValue(key: ConfigKey, value: unknown): unknown {
+  const schema: ConfigKeySchema = CONFIG_SCHEMA[key]
+  const isPrimitive = (item: unknown) => ['string', 'number', 'boolean'].includes(typeof item)
+  const matchEnum = (item: string) => {
+    if (!schema.enum) return item
+    const match = schema.enum.find((allowed) => allowed.toLowerCase() === item.toLowerCase())
+    if (match === undefined) throw new Error(`expected one of: ${schema.enum.join(', ')}`)
+    return match
   }
 
-  const requiredKeys: (keyof ProjectConfig)[] = [
-    'APP_NAME',
-    'APP_DESCRIPTION',
-    'APP_VERSION',
-    'APP_PATH',
-    'APP_GITHUB_REPO',
-    'APP_CONFIG_FILE_NAME',
-    'APP_DISABLED_COMMANDS',
-    'APP_ENV',
-    'APP_WORKSPACE_PATH',
-    'APP_LOG_LEVEL',
+  switch (schema.type) {
+    case 'number': {
+      const number = typeof value === 'string' && value.trim() !== '' ? Number(value) : value
+      if (typeof number !== 'number' || !Number.isFinite(number)) {
+        throw new Error('expected a number')
+      }
+      return number
+    }
+    case 'boolean': {
+      if (typeof value === 'boolean') return value
+      const normalized = String(value).trim().toLowerCase()
+      if (['true', '1', 'yes', 'on'].includes(normalized)) return true
+      if (['false', '0', 'no', 'off'].includes(normalized)) return false
+      throw new Error('expected a boolean (true or false)')
+    }
+    case 'array': {
+      const items = typeof value === 'string'
+        ? value.split(',').map((item) => item.trim()).filter(Boolean)
+        : value
+      if (!Array.isArray(items) || !items.every(isPrimitive)) {
+        throw new Error('expected an array or a comma-separated list')
+      }
+      return items.map((item) => matchEnum(String(item)))
+    }
+    case 'object': {
+      const object = typeof value === 'string' ? parseJsonc(value) : value
+      if (!object || typeof object !== 'object' || Array.isArray(object)) {
+        throw new Error('expected an object')
+      }
+      return object
+    }
+    default: {
+      if (!isPrimitive(value)) throw new Error('expected a string')
+      return matchEnum(String(value))
+    }
+  }
+}
+
+/**
+ * Gets the name of an app's directories in the home and workspace directories, e.g. .new-codebase
+ */
+function getAppDirName(appName: string): string {
+  return `.${appName.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '')}`
+}
+
+/**
+ * Gets the directory of an app's user files in the home directory, e.g. ~/.new-codebase
+ */
+function getUserDir(appName: string): string {
+  const homeDir = Deno.env.get('HOME') || Deno.env.get('USERPROFILE') || '.'
+  return join(homeDir, getAppDirName(appName))
+}
+
+/**
+ * Gets the encrypted store of API keys in an app's user directory
+ */
+function getCredentialStore(config: Pick<ProjectConfig, 'APP_NAME'>): CredentialStore {
+  return new CredentialStore(join(getUserDir(config.APP_NAME), CREDENTIALS_FILE_NAME))
+}
+
+/**
+ * Gets the config files loaded for a configuration, from lowest to highest precedence
+ *
+ * @param config Config values used to locate the files
+ * @returns The user, workspace and workspace local config files, whether they exist or not
+ */
+function getConfigFiles(
+  config: Pick<ProjectConfig, 'APP_NAME' | 'APP_CONFIG_FILE_NAME' | 'APP_WORKSPACE_PATH'>,
+): ConfigFile[] {
+  const fileName = config.APP_CONFIG_FILE_NAME
+  const extension = extname(fileName) || '.json'
+  const localFileName = `${basename(fileName, extname(fileName))}.local${extension}`
+
+  const workspacePath = resolve(config.APP_WORKSPACE_PATH)
+
+  return [
+    { scope: 'user', path: join(getUserDir(config.APP_NAME), fileName) },
+    { scope: 'workspace', path: join(workspacePath, fileName) },
+    { scope: 'local', path: join(workspacePath, localFileName) },
   ]
+}
 
-  const missingKeys = requiredKeys.filter((key) =>
-    !(key in config) ||
-    typeof (config as Record<string, unknown>)[key] !== 'string' ||
-    (config as Record<string, unknown>)[key] === ''
-  )
+/**
+ * Gets the line and column (both 1-based) of a position in a text
+ */
+function toLineAndColumn(text: string, position: number): { line: number; column: number } {
+  const before = text.slice(0, position)
+  return { line: before.split('\n').length, column: position - before.lastIndexOf('\n') }
+}
 
-  if (missingKeys.length > 0) {
+/**
+ * Reads the config values and profiles of a JSONC config file
+ *
+ * @param path Path of the config file
+ * @returns The raw config values and the values of each profile, with the line they are set on,
+ * or no values if the file does not exist
+ * @throws {Error} pointing at the file, line and column of a syntax error, unknown key or invalid profile
+ */
+async function readConfigFile(path: string): Promise<ConfigFileValues> {
+  const values = new Map<ConfigKey, RawConfigValue>()
+  const profiles = new Map<string, Map<ConfigKey, RawConfigValue>>()
+  if (!(await exists(path, { isFile: true }))) return { values, profiles }
+
+  const text = await Deno.readTextFile(path)
+  const locate = (position: number) => {
+    const { line, column } = toLineAndColumn(text, position)
+    return `${path}:${line}:${column}`
+  }
+  const isObject = (value: unknown): value is Record<string, unknown> =>
+    !!value && typeof value === 'object' && !Array.isArray(value)
+
+  let data: unknown
+  try {
+    data = parseJsonc(text)
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error)
+    const position = message.match(/at position (\d+)/)?.[1]
     throw new Error(
-      `Invalid configuration: missing or invalid required fields:\n${missingKeys.join('\n')}`,
+      `Invalid config file ${locate(position ? Number(position) : text.length)}: ${message}`,
     )
   }
 
-  return true
-}
-/**
- * Resolves all async values in the config object
- */
-async function resolveAsyncValues(
-  config: Record<string, unknown>,
-): Promise<Record<string, string>> {
-  // Process all entries in parallel with functional approach
-  const entries = await Promise.all(
-    Object.entries(config).map(async ([key, value]) => {
-      try {
-        // Resolve all functions and promises or return the plain value
-        const resolved = await (
-          typeof value === 'function'
-            ? Promise.resolve(value()).then((result) => result instanceof Promise ? result : result)
-            : value instanceof Promise
-            ? value
-            : Promise.resolve(value)
-        )
-
-        // Filter invalid values by returning null
-        return (resolved !== null && resolved !== undefined && resolved !== '')
-          ? [key, String(resolved)]
-          : null
-      } catch {
-        return null
+  if (!isObject(data)) {
+    throw new Error(`Invalid config file ${locate(0)}: expected an object of config values`)
+  }
+
+  // Keys are located by searching the text after the object they belong to starts
+  const readValues = (object: Record<string, unknown>, from: number) => {
+    const objectValues = new Map<ConfigKey, RawConfigValue>()
+    for (const [key, value] of Object.entries(object)) {
+      const origin = locate(Math.max(0, text.indexOf(JSON.stringify(key), from)))
+      if (!isConfigKey(key)) {
+        throw new Error(`Invalid config file ${origin}: unknown config key "${key}"`)
       }
-    }),
-  )
+      objectValues.set(key, { value, source: 'file', origin })
+    }
+    return objectValues
+  }
+
+  const { $schema: _schema, [PROFILES_KEY]: profileData, ...config } = data
+  for (const [key, value] of readValues(config, 0)) values.set(key, value)
 
-  // Return the object of resolved values but with keys removed that have null values
-  return Object.fromEntries(entries.filter(Boolean) as [string, string][])
+  if (profileData === undefined) return { values, profiles }
+  const profilesStart = Math.max(0, text.indexOf(JSON.stringify(PROFILES_KEY)))
+  if (!isObject(profileData)) {
+    throw new Error(
+      `Invalid config file ${
+        locate(profilesStart)
+      }: expected "${PROFILES_KEY}" to be an object of profiles`,
+    )
+  }
+  for (const [name, profile] of Object.entries(profileData)) {
+    const profileStart = Math.max(0, text.indexOf(JSON.stringify(name), profilesStart))
+    if (!isObject(profile)) {
+      throw new Error(
+        `Invalid config file ${
+          locate(profileStart)
+        }: expected profile "${name}" to be an object of config values`,
+      )
+    }
+    if ('APP_PROFILE' in profile) {
+      throw new Error(
+        `Invalid config file ${locate(profileStart)}: profile "${name}" cannot select a profile`,
+      )
+    }
+    const profileValues = readValues(profile, profileStart)
+    for (const [key, value] of profileValues) {
+      profileValues.set(key, { ...value, source: 'profile', origin: `${name} ${value.origin}` })
+    }
+    profiles.set(name, profileValues)
+  }
+  return { values, profiles }
 }
 
 /**
- * Creates parse options for command line arguments based on config keys.
- * Converts internal config keys (e.g., APP_WORKSPACE_PATH) to kebab-case
- * argument names (e.g., workspace-path) for parseArgs.
+ * Reads the default values of the config schema, resolving default functions
  */
-function createParseOptions(
-  config: Record<string, string>,
-): { string: string[]; alias: Record<string, string> } {
-  return Object.keys(config)
-    .filter((key) => key.startsWith(CONFIG_SUFFIX))
-    .reduce((options, key) => {
-      const baseName = key.replace(CONFIG_SUFFIX, '') // e.g., WORKSPACE_PATH
-      const argName = baseName.toLowerCase().replace(/_/g, '-') // e.g., workspace-path
-      options.string.push(argName)
-      return options
-    }, { string: [] as string[], alias: {} as Record<string, string> })
+async function readDefaults(): Promise<Map<ConfigKey, RawConfigValue>> {
+  const values = new Map<ConfigKey, RawConfigValue>()
+  for (const [key, schema] of Object.entries(CONFIG_SCHEMA) as [ConfigKey, ConfigKeySchema][]) {
+    try {
+      const value = typeof schema.default === 'function' ? await schema.default() : schema.default
+      if (value !== undefined && value !== null) values.set(key, { value, source: 'default' })
+    } catch {
+      // A default that cannot be computed (e.g. no package file found) is left unset
+    }
+  }
+  return values
 }
 
 /**
- * Initializes configuration with default values, environment variables,
- * provided config argument, and command line arguments
+ * Reads the config values set in environment variables
+ */
+function readEnv(): Map<ConfigKey, RawConfigValue> {
+  const values = new Map<ConfigKey, RawConfigValue>()
+  for (const key of Object.keys(CONFIG_SCHEMA) as ConfigKey[]) {
+    const name = getEnvName(key)
+    const value = Deno.env.get(name)
+    if (value !== undefined && value !== '') values.set(key, { value, source: 'env', origin: name })
+  }
+  return values
+}
+
+/**
+ * Gets the .env files of a workspace, from lowest to highest precedence
  *
- * @param config Optional partial configuration to override defaults
- * @returns Complete ProjectConfig object
+ * @param workspacePath Path of the workspace
+ * @param appEnv Execution environment selecting the per-environment files, if known
+ * @returns Paths of the .env files, whether they exist or not
  */
-async function initConfig(config: Partial<ProjectConfig> = {}): Promise<ProjectConfig> {
-  // Start with defaults and resolve any async values
-  const foundConfig = await resolveAsyncValues(DEFAULT_VALUES)
+function getDotenvFiles(workspacePath: string, appEnv?: string): string[] {
+  const names = appEnv
+    ? ['.env', '.env.local', `.env.${appEnv}`, `.env.${appEnv}.local`]
+    : ['.env', '.env.local']
+  return names.map((name) => join(resolve(workspacePath), name))
+}
+
+/**
+ * Reads the config values set in .env files
+ *
+ * @param paths Paths of the .env files, from lowest to highest precedence
+ * @returns The raw config values, and the files that exist
+ */
+async function readDotenvFiles(
+  paths: string[],
+): Promise<{ values: Map<ConfigKey, RawConfigValue>; files: string[]; names: string[] }> {
+  const texts = new Map<string, string>()
+  for (const path of paths) {
+    if (await exists(path, { isFile: true })) texts.set(path, await Deno.readTextFile(path))
+  }
+
+  // Parsed together so that variables defined in an earlier file can be expanded in a later one
+  const variables = parseDotenv([...texts.values()].join('\n'))
+  const definedIn = [...texts].map(([path, text]) => ({
+    path,
+    names: Object.keys(parseDotenv(text)),
+  }))
 
-  // Add environment variables with CONFIG_SUFFIX suffix
-  const envFilter = ([key, value]: [string, string]) =>
-    key.startsWith(CONFIG_SUFFIX) && value !== '' && value != null
+  const values = new Map<ConfigKey, RawConfigValue>()
+  for (const key of Object.keys(CONFIG_SCHEMA) as ConfigKey[]) {
+    const name = getEnvName(key)
+    const value = variables[name]
+    if (value === undefined || value === '') continue
 
-  for (const [key, value] of Object.entries(Deno.env.toObject()).filter(envFilter)) {
-    foundConfig[key] = value
+    const origin = definedIn.findLast(({ names }) => names.includes(name))?.path
+    values.set(key, { value, source: 'dotenv', ...(origin ? { origin } : {}) })
   }
+  return { values, files: [...texts.keys()], names: Object.keys(variables) }
+}
 
-  // Add configuration passed to this function (e.g., from setConfig)
-  if (config) {
-    const configFilter = ([_, value]: [string, unknown]) => value !== '' && value != null
+/**
+ * Warns about variables with the env prefix that do not belong to a config key, suggesting the
+ * closest known variable
+ *
+ * @param names Names of the variables that are set
+ * @param where Where the variables are set, e.g. "environment"
+ * @returns A warning for each unknown prefixed variable
+ */
+function findUnknownEnvNames(names: string[], where: string): string[] {
+  const known = (Object.keys(CONFIG_SCHEMA) as ConfigKey[]).map(getEnvName)
+  return names
+    .filter((name) => name.startsWith(envPrefix) && !known.includes(name))
+    .map((name) => {
+      // Compared without the shared prefix, which would otherwise make any name look close
+      const unprefixed = known.filter((env) => env.startsWith(envPrefix))
+        .map((env) => env.slice(envPrefix.length))
+      const match = suggest(name.slice(envPrefix.length), unprefixed)
+      const suggestion = match && `${envPrefix}${match}`
+      return `Unknown ${where} variable ${name}${suggestion ? `, did you mean ${suggestion}?` : ''}`
+    })
+}
 
-    for (const [key, value] of Object.entries(config).filter(configFilter)) {
-      foundConfig[key] = String(value)
+/**
+ * Reads config values from the config argument of initConfig
+ */
+function readArgument(config: Partial<ProjectConfig>): Map<ConfigKey, RawConfigValue> {
+  const values = new Map<ConfigKey, RawConfigValue>()
+  for (const [key, value] of Object.entries(config)) {
+    if (isConfigKey(key) && value !== '' && value != null) {
+      values.set(key, { value, source: 'argument' })
     }
   }
+  return values
+}
 
-  // Process command line arguments with highest precedence
+/**
+ * Creates parse options for command line arguments from the config schema.
+ * Converts internal config keys (e.g., APP_WORKSPACE_PATH) to kebab-case
+ * argument names (e.g., workspace-path) for parseArgs, unless the schema names another flag.
+ */
+function createParseOptions(): {
+  string: string[]
+  boolean: string[]
+  alias: Record<string, string>
+} {
+  return (Object.keys(CONFIG_SCHEMA) as ConfigKey[]).reduce((options, key) => {
+    const argName = getFlagName(key)
+    if (argName) {
+      const type = (CONFIG_SCHEMA[key] as ConfigKeySchema).type
+      options[type === 'boolean' ? 'boolean' : 'string'].push(argName)
+    }
+    return options
+  }, { string: [] as string[], boolean: [] as string[], alias: {} as Record<string, string> })
+}
+
+/**
+ * Reads config values from command line arguments
+ */
+function readCliArgs(args: string[]): Map<ConfigKey, RawConfigValue> {
+  const values = new Map<ConfigKey, RawConfigValue>()
   try {
-    const parseOptions = createParseOptions(foundConfig) // Use foundConfig to know what args to look for
-    const args = parseArgs(Deno.args, parseOptions)
-
-    const argsFilter = ([key, value]: [string, unknown]) =>
-      key !== '_' && key !== '--' && // Standard ignored keys from parseArgs
-      typeof value === 'string' && value !== ''
-
-    for (const [parsedArgKey, value] of Object.entries(args).filter(argsFilter)) {
-      // Convert parsed arg key (kebab-case, e.g., "workspace-path")
-      // back to internal config key format (APP_WORKSPACE_PATH)
-      const snakeCaseKey = parsedArgKey.replace(/-/g, '_')
-      const internalConfigKey = `${CONFIG_SUFFIX}${snakeCaseKey.toUpperCase()}`
-      foundConfig[internalConfigKey] = value as string
+    const parsed = parseArgs(args, createParseOptions())
+
+    for (const key of Object.keys(CONFIG_SCHEMA) as ConfigKey[]) {
+      const argName = getFlagName(key)
+      if (!argName) continue
+
+      // parseArgs defaults boolean flags to false, only take the ones actually given
+      const isGiven = args.some((arg) => arg === `--${argName}` || arg.startsWith(`--${argName}=`))
+      const value = parsed[argName]
+      if (isGiven && value !== undefined && value !== '') {
+        values.set(key, { value, source: 'cli', origin: `--${argName}` })
+      }
     }
   } catch (_err) {
     // Silently fail if argument parsing fails, or log if needed
     // console.error("Failed to parse command line arguments:", e);
   }
+  return values
+}
+
+/**
+ * Coerces and validates merged raw values against the config schema
+ *
+ * @param values Raw values, keyed by config key, from the highest precedence source
+ * @returns The resolved config and the source of each value
+ * @throws {Error} listing every invalid or missing value and where it came from
+ */
+function resolveConfigValues(
+  values: Map<ConfigKey, RawConfigValue>,
+): { config: ProjectConfig; sources: Map<ConfigKey, ConfigValueSource> } {
+  const config: Record<string, unknown> = {}
+  const sources = new Map<ConfigKey, ConfigValueSource>()
+  const errors: string[] = []
+
+  for (const key of Object.keys(CONFIG_SCHEMA) as ConfigKey[]) {
+    const schema: ConfigKeySchema = CONFIG_SCHEMA[key]
+    const raw = values.get(key)
+    if (!raw) {
+      if (schema.required) errors.push(`${key}: missing`)
+      continue
+    }
+
+    try {
+      const value = coerceConfigValue(key, raw.value)
+      if (schema.required && value === '') throw new Error('must not be empty')
+      config[key] = value
+      sources.set(key, { source: raw.source, ...(raw.origin ? { origin: raw.origin } : {}) })
+    } catch (error) {
+      errors.push(
+        `${key}: invalid value ${formatConfigValue(key, raw.value)} from ${
+          formatConfigSource(raw)
+        }, ${error instanceof Error ? error.message : String(error)}`,
+      )
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid configuration:\n${errors.join('\n')}`)
+  }
+  return { config: config as ProjectConfig, sources }
+}
+
+/**
+ * Initializes configuration with default values, config files, environment variables,
+ * provided config argument, and command line arguments
+ *
+ * @param config Optional partial configuration to override defaults
+ * @returns Complete ProjectConfig object
+ */
+async function initConfig(config: Partial<ProjectConfig> = {}): Promise<ProjectConfig> {
+  // The env prefix must be known before reading env variables, so it only follows APP_NAME given
+  // as an argument
+  envPrefix = getEnvPrefix(config.APP_NAME || CONFIG_SCHEMA.APP_NAME.default)
+
+  const defaultValues = await readDefaults()
+  const envValues = readEnv()
+  const argumentValues = readArgument(config ?? {})
+  const cliValues = readCliArgs(Deno.args)
+
+  // .env and config files rank below env and args, but are located with them (they choose the
+  // workspace). APP_ENV set in .env or .env.local selects the per-environment .env files.
+  const given = new Map([...envValues, ...argumentValues, ...cliValues])
+  const workspacePath = String(
+    new Map([...defaultValues, ...given]).get('APP_WORKSPACE_PATH')?.value,
+  )
+  const baseDotenv = await readDotenvFiles(getDotenvFiles(workspacePath))
+  const appEnv = given.get('APP_ENV') ?? baseDotenv.values.get('APP_ENV') ??
+    defaultValues.get('APP_ENV')
+  const dotenvPaths = getDotenvFiles(workspacePath, appEnv && String(appEnv.value).toLowerCase())
+  const dotenv = await readDotenvFiles(dotenvPaths)
+  const dotenvValues = dotenv.values
+
+  const locating = new Map([...defaultValues, ...dotenvValues, ...given])
+  const locate = (key: ConfigKey) => String(locating.get(key)?.value ?? '')
+  const files = getConfigFiles({
+    APP_NAME: locate('APP_NAME'),
+    APP_CONFIG_FILE_NAME: locate('APP_CONFIG_FILE_NAME'),
+    APP_WORKSPACE_PATH: locate('APP_WORKSPACE_PATH'),
+  })
+  const fileContents = await Promise.all(files.map(({ path }) => readConfigFile(path)))
+  const fileLayers = fileContents.map(({ values }) => values)
+
+  // The profile is selected like any other value, and overlays the values of the same profile in
+  // every config file (the more specific file winning) on top of the base configuration
+  const profiles = new Map<string, Map<ConfigKey, RawConfigValue>>()
+  for (const [name, values] of fileContents.flatMap(({ profiles }) => [...profiles])) {
+    profiles.set(name, new Map([...(profiles.get(name) ?? []), ...values]))
+  }
+  const selected = new Map([
+    ...fileLayers.flatMap((layer) => [...layer]),
+    ...dotenvValues,
+    ...given,
+  ])
+    .get('APP_PROFILE')
+  const profileName = selected ? String(selected.value) : ''
+  if (profileName && !profiles.has(profileName)) {
+    throw new Error(
+      `Unknown profile "${profileName}" from ${formatConfigSource(selected!)}. ${
+        profiles.size > 0
+          ? `Available profiles: ${[...profiles.keys()].join(', ')}`
+          : 'No profiles are defined in the config files'
+      }`,
+    )
+  }
+  const profileValues = profiles.get(profileName) ?? new Map<ConfigKey, RawConfigValue>()
+
+  // API keys fall back to the credential store when no other source sets them
+  const setKeys = new Set(
+    [...fileLayers, dotenvValues, envValues, profileValues, argumentValues, cliValues]
+      .flatMap((layer) => [...layer.keys()]),
+  )
+  const credentialValues = new Map<ConfigKey, RawConfigValue>()
+  const credentialWarnings: string[] = []
+  const store = getCredentialStore({ APP_NAME: locate('APP_NAME') })
+  for (
+    const [provider, { configKey }] of Object.entries(CREDENTIAL_PROVIDERS) as [
+      CredentialProviderName,
+      (typeof CREDENTIAL_PROVIDERS)[CredentialProviderName],
+    ][]
+  ) {
+    if (setKeys.has(configKey)) continue
+    try {
+      const value = await store.get(provider)
+      if (value) {
+        credentialValues.set(configKey, { value, source: 'credentials', origin: store.getPath() })
+      }
+    } catch (error) {
+      credentialWarnings.push(error instanceof Error ? error.message : String(error))
+    }
+  }
+
+  const layers = [
+    defaultValues,
+    credentialValues,
+    ...fileLayers,
+    dotenvValues,
+    envValues,
+    profileValues,
+    argumentValues,
+    cliValues,
+  ]
+  const candidates = new Map<ConfigKey, ConfigCandidate[]>()
+  for (const [key, value] of layers.flatMap((layer) => [...layer])) {
+    candidates.set(key, [...(candidates.get(key) ?? []), value])
+  }
+
+  const { config: resolvedConfig, sources } = resolveConfigValues(
+    new Map(layers.flatMap((layer) => [...layer])),
+  )
+  configSources = sources
+  configCandidates = candidates
+  dotenvFiles = dotenv.files
+  configProfiles = [...profiles.keys()]
+  configArgument = config
+  configPaths = [...files.map(({ path }) => path), ...dotenvPaths, store.getPath()]
+  configWarnings = [
+    ...credentialWarnings,
+    ...findUnknownEnvNames(Object.keys(Deno.env.toObject()), 'environment'),
+    ...findUnknownEnvNames(dotenv.names, '.env'),
+  ]
+  return resolvedConfig
+}
+
+/**
+ * Gets where a config value came from, e.g. to explain it or to name it in an error
+ *
+ * @param key The config key
+ * @returns The source of the resolved value, or undefined if the key is not set or config is not initialized
+ */
+function getConfigSource(key: ConfigKey): ConfigValueSource | undefined {
+  return configSources.get(key)
+}
 
-  // Validate the config
+/**
+ * Gets the .env files that were applied to the configuration
+ *
+ * @returns Paths of the existing .env files, from the lowest to the highest precedence
+ */
+function getAppliedDotenvFiles(): string[] {
+  return dotenvFiles
+}
+
+/**
+ * Gets the profiles that can be selected with APP_PROFILE (e.g. `--profile review`)
+ *
+ * @returns Names of the profiles defined in the loaded config files
+ */
+function getProfiles(): string[] {
+  return configProfiles
+}
+
+/**
+ * Gets the problems found while loading the configuration that did not prevent loading it
+ *
+ * @returns Warning messages, e.g. about unknown environment variables
+ */
+function getConfigWarnings(): string[] {
+  return configWarnings
+}
+
+/**
+ * Gets every value read for a config key, e.g. to explain which source won
+ *
+ * @param key The config key
+ * @returns The raw values from the lowest to the highest precedence source; the last one is used
+ */
+function getConfigCandidates(key: ConfigKey): ConfigCandidate[] {
+  return configCandidates.get(key) ?? []
+}
+
+/**
+ * Sets or removes a value in a config file, keeping the comments and formatting of the file
+ *
+ * @param path Path of the config file, created if it does not exist
+ * @param key The config key
+ * @param value The value to set, coerced to the type of the key, or undefined to remove the key
+ * @returns The value written, or undefined when removing
+ * @throws {Error} if the value is invalid for the key or the existing file is invalid
+ */
+async function writeConfigFileValue(
+  path: string,
+  key: ConfigKey,
+  value: unknown,
+): Promise<unknown> {
+  // Refuse to edit a file that would not load anyway, pointing at the problem
+  await readConfigFile(path)
+  const text = (await exists(path, { isFile: true })) ? await Deno.readTextFile(path) : '{}\n'
+
+  if (value === undefined) {
+    await writeTextFileAtomic(path, removeJsoncProperty(text, key))
+    return undefined
+  }
+
+  let coerced: unknown
   try {
-    assertProjectConfig(foundConfig)
-    return foundConfig as unknown as ProjectConfig
-  } catch (err) {
+    coerced = coerceConfigValue(key, value)
+  } catch (error) {
     throw new Error(
-      `Configuration initialization failed: ${
-        err instanceof Error ? err.message : 'Unknown error'
+      `Invalid value ${formatConfigValue(key, value)} for ${key}: ${
+        error instanceof Error ? error.message : String(error)
       }`,
     )
   }
+  await Deno.mkdir(dirname(path), { recursive: true })
+  await writeTextFileAtomic(path, setJsoncProperty(text, key, coerced))
+  return coerced
 }
 
 /**
@@ -230,6 +1054,109 @@ async function getConfig(): Promise<ProjectConfig> {
   return await initPromise
 }
 
+/**
+ * Reloads the configuration from all of its sources, updating the configuration returned by
+ * getConfig in place and notifying the subscribers of the keys that changed. If the new
+ * configuration is invalid, the current one is kept.
+ *
+ * @param configUpdates Config argument to reload with, by default the one of the last initialization
+ * @returns The reloaded configuration
+ * @throws {Error} if the configuration cannot be loaded
+ */
+async function reloadConfig(configUpdates?: Partial<ProjectConfig>): Promise<ProjectConfig> {
+  const current = await getConfig()
+  const previous = { ...current }
+  const next = await initConfig(configUpdates ?? configArgument)
+
+  const keys = Object.keys(CONFIG_SCHEMA) as ConfigKey[]
+  const changed = keys.filter((key) => JSON.stringify(previous[key]) !== JSON.stringify(next[key]))
+  for (const key of keys) {
+    if (!(key in next)) delete current[key]
+  }
+  Object.assign(current, next)
+  if (changed.length === 0) return current
+
+  logger.debug(`Configuration reloaded, changed: ${changed.join(', ')}`)
+  const event: ConfigChangeEvent = { changed, previous, config: current }
+  for (const { keys, listener } of changeListeners) {
+    if (keys.length > 0 && !keys.some((key) => changed.includes(key))) continue
+    try {
+      listener(event)
+    } catch (error) {
+      logger.error(`Error in config change listener: ${error}`)
+    }
+  }
+
+  // The files to watch depend on the configuration (e.g. the workspace), follow them
+  if (configWatcher) await watchConfig()
+  return current
+}
+
+/**
+ * Subscribes to changes of the configuration made by reloadConfig
+ *
+ * @param keys The keys to be notified about, or an empty list for all keys
+ * @param listener Called with the change when one of the keys changed
+ * @returns A function that removes the subscription
+ */
+function onConfigChange(
+  keys: ConfigKey | ConfigKey[],
+  listener: ConfigChangeListener,
+): () => void {
+  const subscription = { keys: Array.isArray(keys) ? keys : [keys], listener }
+  changeListeners.add(subscription)
+  return () => changeListeners.delete(subscription)
+}
+
+/**
+ * Starts watching the config files, .env files and credentials file for changes, reloading the
+ * configuration when they change. Events are debounced and the watcher is closed by unwatchConfig
+ * or when the process shuts down.
+ */
+async function watchConfig(): Promise<void> {
+  await getConfig()
+  const dirs: string[] = []
+  for (const dir of new Set(configPaths.map((path) => dirname(path)))) {
+    if (await exists(dir, { isDirectory: true })) dirs.push(dir)
+  }
+
+  configWatcher?.close()
+  configWatcher = undefined
+  if (dirs.length === 0) return
+
+  if (!hasShutdownHandler) {
+    gracefulShutdown.addShutdownHandler(() => unwatchConfig())
+    hasShutdownHandler = true
+  }
+  reloadOnChange ??= debounce(() => {
+    reloadConfig().catch((error) =>
+      logger.error(
+        `Error reloading configuration, keeping the current one: ${
+          error instanceof Error ? error.message : error
+        }`,
+      )
+    )
+  }, WATCH_DEBOUNCE)
+
+  const watcher = Deno.watchFs(dirs.sort(), { recursive: false })
+  configWatcher = watcher
+  logger.debug(`Watching config files in: ${dirs.join(', ')}`)
+  ;(async () => {
+    for await (const event of watcher) {
+      if (event.paths.some((path) => configPaths.includes(path))) reloadOnChange?.()
+    }
+  })().catch((error) => logger.error(`Error watching config files: ${error}`))
+}
+
+/**
+ * Stops watching the config files. Changes already queued are dropped.
+ */
+function unwatchConfig(): void {
+  reloadOnChange?.clear()
+  configWatcher?.close()
+  configWatcher = undefined
+}
+
 /**
  * Sets or initializes the configuration.
  * This function is idempotent within its module scope: once config is initialized,
@@ -257,5 +1184,41 @@ async function setConfig(configUpdates: Partial<ProjectConfig> = {}): Promise<Pr
   return configInstance
 }
 
-export type { ProjectConfig }
-export { getConfig, setConfig }
+export type {
+  ConfigCandidate,
+  ConfigChangeEvent,
+  ConfigChangeListener,
+  ConfigFile,
+  ConfigFileScope,
+  ConfigKey,
+  ConfigKeySchema,
+  ConfigSource,
+  ConfigValueSource,
+  ConfigValueType,
+  ProjectConfig,
+}
+export {
+  CONFIG_SCHEMA,
+  createParseOptions,
+  formatConfigSource,
+  formatConfigValue,
+  getAppDirName,
+  getAppliedDotenvFiles,
+  getConfig,
+  getConfigCandidates,
+  getConfigFiles,
+  getConfigSource,
+  getConfigWarnings,
+  getCredentialStore,
+  getDotenvFiles,
+  getEnvName,
+  getFlagName,
+  getProfiles,
+  getUserDir,
+  onConfigChange,
+  reloadConfig,
+  setConfig,
+  unwatchConfig,
+  watchConfig,
+  writeConfigFileValue,
+}
@@ -0,0 +1,298 @@
+/**
+ * @module credentials
+ * @description Encrypted store of API keys, so keys do not have to be exported in plain text in the
+ * shell environment.
+ *
+ * Keys are stored in a JSON file that only the user can read, e.g. `~/.new-codebase/credentials.json`,
+ * each encrypted with AES-GCM. The encryption key is derived (PBKDF2) from the host and user name
+ * with a random salt kept in the file, so a copied credentials file cannot be read on another
+ * machine or by another account:
+ * ```json
+ * {
+ *   "version": 1,
+ *   "salt": "...",
+ *   "credentials": {
+ *     "anthropic": { "iv": "...", "data": "...", "savedAt": "2026-01-01T00:00:00.000Z" }
+ *   }
+ * }
+ * ```
+ * Config falls back to the store for the API keys of the providers in CREDENTIAL_PROVIDERS when
+ * no other source sets them.
+ */
+import { dirname } from '@std/path'
+import { exists } from '@std/fs'
+import { withFileLock, writeTextFileAtomic } from './utils/atomic-write.ts'
+
+/**
+ * A service whose API key can be stored
+ */
+type CredentialProvider = {
+  /** Name shown to the user */
+  label: string
+  /** Config key the API key is used as */
+  configKey: 'ANTHROPIC_API_KEY' | 'OPENAI_API_KEY'
+  /** Format of a valid API key */
+  pattern: RegExp
+  /** Description of the format, for errors */
+  format: string
+}
+
+/**
+ * Providers with API keys that can be stored, by name
+ */
+const CREDENTIAL_PROVIDERS = {
+  anthropic: {
+    label: 'Anthropic',
+    configKey: 'ANTHROPIC_API_KEY',
+    pattern: /^sk-ant-[A-Za-z0-9_-]{20,}$/,
+    format: 'sk-ant-...',
+  },
+  openai: {
+    label: 'OpenAI',
+    configKey: 'OPENAI_API_KEY',
+    pattern: /^sk-(?!ant-)[A-Za-z0-9_-]{20,}$/,
+    format: 'sk-...',
+  },
+} as const satisfies Record<string, CredentialProvider>
+
+type CredentialProviderName = keyof typeof CREDENTIAL_PROVIDERS
+
+/**
+ * A stored API key, as listed without decrypting it
+ */
+type CredentialInfo = {
+  provider: CredentialProviderName
+  /** When the key was stored (ISO 8601) */
+  savedAt: string
+}
+
+type StoredCredential = {
+  /** AES-GCM initialization vector (base64) */
+  iv: string
+  /** Encrypted API key (base64) */
+  data: string
+  savedAt: string
+}
+
+type CredentialsFile = {
+  version: 1
+  /** PBKDF2 salt of the encryption key (base64) */
+  salt: string
+  credentials: Partial<Record<CredentialProviderName, StoredCredential>>
+}
+
+const PBKDF2_ITERATIONS = 100_000
+
+const toBase64 = (bytes: Uint8Array): string => btoa(String.fromCharCode(...bytes))
+const fromBase64 = (text: string): Uint8Array<ArrayBuffer> =>
+  Uint8Array.from(atob(text), (c) => c.charCodeAt(0))
+
+/**
+ * Check whether a name is a known credential provider
+ */
+const isCredentialProvider = (name: string): name is CredentialProviderName =>
+  Object.hasOwn(CREDENTIAL_PROVIDERS, name)
+
+/**
+ * Resolve a provider name given by the user, defaulting to Anthropic
+ *
+ * @param name The provider name, if given
+ * @returns The provider
+ * @throws {Error} listing the known providers if the name is unknown
+ */
+function toCredentialProvider(name: string | undefined): CredentialProviderName {
+  if (name === undefined) return 'anthropic'
+  const provider = name.toLowerCase()
+  if (!isCredentialProvider(provider)) {
+    throw new Error(
+      `Unknown provider "${name}". Expected one of: ${
+        Object.keys(CREDENTIAL_PROVIDERS).join(', ')
+      }`,
+    )
+  }
+  return provider
+}
+
+/**
+ * Validate the format of an API key
+ *
+ * @param provider The provider the key belongs to
+ * @param apiKey The API key
+ * @throws {Error} describing the expected format if the key does not match it
+ */
+function validateApiKey(provider: CredentialProviderName, apiKey: string): void {
+  const { label, pattern, format } = CREDENTIAL_PROVIDERS[provider]
+  if (!pattern.test(apiKey)) {
+    throw new Error(`This is not a valid ${label} API key, expected ${format}`)
+  }
+}
+
+/**
+ * Get the machine and account specific secret the encryption key is derived from
+ */
+function getLocalSecret(): string {
+  let hostname = ''
+  try {
+    hostname = Deno.hostname()
+  } catch {
+    // Without permission to read the host name the key is bound to the user only
+  }
+  const user = Deno.env.get('USER') || Deno.env.get('USERNAME') || ''
+  return `${hostname}:${user}`
+}
+
+/**
+ * Encrypted API key store
+ */
+class CredentialStore {
+  private path: string
+  private secret: string
+
+  /**
+   * Create a credential store
+   * @param path Path of the credentials file
+   * @param secret Secret the encryption key is derived from, by default from the host and user name
+   */
+  constructor(path: string, secret: string = getLocalSecret()) {
+    this.path = path
+    this.secret = secret
+  }
+
+  /**
+   * Get the path of the credentials file
+   */
+  getPath(): string {
+    return this.path
+  }
+
+  private async readFile(): Promise<CredentialsFile | undefined> {
+    if (!(await exists(this.path, { isFile: true }))) return undefined
+    return JSON.parse(await Deno.readTextFile(this.path)) as CredentialsFile
+  }
+
+  private async writeFile(file: CredentialsFile): Promise<void> {
+    if (!(await exists(this.path))) {
+      // Created readable by the user only, the atomic write keeps these permissions
+      await Deno.writeTextFile(this.path, '', { mode: 0o600 })
+    }
+    await writeTextFileAtomic(this.path, JSON.stringify(file, null, 2))
+  }
+
+  private async deriveKey(salt: Uint8Array<ArrayBuffer>): Promise<CryptoKey> {
+    const material = await crypto.subtle.importKey(
+      'raw',
+      new TextEncoder().encode(this.secret),
+      'PBKDF2',
+      false,
+      ['deriveKey'],
+    )
+    return await crypto.subtle.deriveKey(
+      { name: 'PBKDF2', salt, iterations: PBKDF2_ITERATIONS, hash: 'SHA-256' },
+      material,
+      { name: 'AES-GCM', length: 256 },
+      false,
+      ['encrypt', 'decrypt'],
+    )
+  }
+
+  /**
+   * Get a stored API key
+   *
+   * @param provider The provider of the key
+   * @returns The API key, or undefined if none is stored
+   * @throws {Error} if the key cannot be decrypted, e.g. because the file was copied from another machine
+   */
+  async get(provider: CredentialProviderName): Promise<string | undefined> {
+    const file = await this.readFile()
+    const stored = file?.credentials[provider]
+    if (!file || !stored) return undefined
+
+    try {
+      const key = await this.deriveKey(fromBase64(file.salt))
+      const decrypted = await crypto.subtle.decrypt(
+        { name: 'AES-GCM', iv: fromBase64(stored.iv) },
+        key,
+        fromBase64(stored.data),
+      )
+      return new TextDecoder().decode(decrypted)
+    } catch {
+      throw new Error(
+        `Cannot decrypt the stored ${
+          CREDENTIAL_PROVIDERS[provider].label
+        } API key in ${this.path}, log in again to replace it`,
+      )
+    }
+  }
+
+  /**
+   * Store an API key, replacing a stored key of the same provider
+   *
+   * @param provider The provider of the key
+   * @param apiKey The API key
+   * @throws {Error} if the key does not have the format of the provider
+   */
+  async set(provider: CredentialProviderName, apiKey: string): Promise<void> {
+    validateApiKey(provider, apiKey)
+    await Deno.mkdir(dirname(this.path), { recursive: true })
+
+    await withFileLock(this.path, async () => {
+      const file: CredentialsFile = (await this.readFile()) ??
+        { version: 1, salt: toBase64(crypto.getRandomValues(new Uint8Array(16))), credentials: {} }
+
+      const iv = crypto.getRandomValues(new Uint8Array(12))
+      const encrypted = await crypto.subtle.encrypt(
+        { name: 'AES-GCM', iv },
+        await this.deriveKey(fromBase64(file.salt)),
+        new TextEncoder().encode(apiKey),
+      )
+      file.credentials[provider] = {
+        iv: toBase64(iv),
+        data: toBase64(new Uint8Array(encrypted)),
+        savedAt: new Date().toISOString(),
+      }
+      await this.writeFile(file)
+    })
+  }
+
+  /**
+   * Remove a stored API key
+   *
+   * @param provider The provider of the key
+   * @returns Whether a key was stored
+   */
+  async remove(provider: CredentialProviderName): Promise<boolean> {
+    if (!(await exists(this.path, { isFile: true }))) return false
+
+    return await withFileLock(this.path, async () => {
+      const file = await this.readFile()
+      if (!file?.credentials[provider]) return false
+
+      delete file.credentials[provider]
+      if (Object.keys(file.credentials).length === 0) await Deno.remove(this.path)
+      else await this.writeFile(file)
+      return true
+    })
+  }
+
+  /**
+   * List the stored API keys without decrypting them
+   *
+   * @returns The providers with a stored key
+   */
+  async list(): Promise<CredentialInfo[]> {
+    const file = await this.readFile()
+    return Object.entries(file?.credentials ?? {}).flatMap(([provider, stored]) =>
+      isCredentialProvider(provider) && stored ? [{ provider, savedAt: stored.savedAt }] : []
+    )
+  }
+}
+
+export type { CredentialInfo, CredentialProvider, CredentialProviderName }
+export {
+  CREDENTIAL_PROVIDERS,
+  CredentialStore,
+  isCredentialProvider,
+  toCredentialProvider,
+  validateApiKey,
+}
+export default CredentialStore
@@ -0,0 +1,374 @@
+/**
+ * @module custom-commands
+ * @description Commands defined by a workspace or the user, so teams can share prompts and scripts
+ * per repository. They are discovered in the `commands` directory of the app directory in the
+ * workspace and in the home directory, e.g. `.new-codebase/commands/` and
+ * `~/.new-codebase/commands/`:
+ * - `<name>.md` files are prompt templates. Running the command prints the prompt with the arguments
+ *   filled in (or, with `--json`, the prompt and its metadata) for an assistant to run:
+ *   ```md
+ *   ---
+ *   description: Review a file for security issues
+ *   arguments: [file, focus]
+ *   allowed-tools: [read_file, grep]
+ *   ---
+ *   Review $1, focusing on $2.
+ *   ```
+ *   `$ARGUMENTS` is replaced with all arguments, and `$1` to `$9` with a single argument.
+ * - `<name>.ts` modules default-export a CommandDefinition named `<name>`, like
+ *   `commands/example.disabled.ts`. They run with the permissions of the CLI, so a module is only
+ *   imported when its command is run (see importCustomCommand), and the modules of a workspace are
+ *   only loaded when the workspace is listed in APP_TRUSTED_WORKSPACES. That setting is only read
+ *   from the user config file, the environment and the command line, so that a cloned repository
+ *   cannot trust itself.
+ *
+ * A workspace command hides a user command of the same name. Built-in commands cannot be replaced:
+ * a custom command with the name of a built-in one is skipped with a warning.
+ */
+import { extname, join, resolve, toFileUrl } from '@std/path'
+import { extract } from '@std/front-matter/yaml'
+import { test as hasFrontMatter } from '@std/front-matter'
+import type { CommandContext, CommandDefinition } from './utils/command-router.ts'
+import { CommandUsageError } from './utils/command-router.ts'
+import logger from './utils/logger.ts'
+import {
+  getAppDirName,
+  getConfigFiles,
+  getConfigSource,
+  getUserDir,
+  type ProjectConfig,
+} from './config.ts'
+
+/**
+ * Where a custom command is defined
+ */
+type CustomCommandScope = 'workspace' | 'user'
+
+/**
+ * Frontmatter of a prompt template
+ */
+type PromptTemplateAttributes = {
+  description?: string
+  /** Names of the positional arguments, shown in the usage and filling `$1`, `$2`, ... */
+  arguments?: string[]
+  /** Tools the assistant may use when running the prompt */
+  allowedTools?: string[]
+}
+
+/**
+ * Custom commands by name, with the problems found while discovering them
+ */
+type CustomCommands = {
+  /** The commands, placeholders for TypeScript commands until they are imported */
+  commands: Record<string, CommandDefinition>
+  /** Paths of the TypeScript command modules, by command name */
+  modules: Record<string, string>
+  warnings: string[]
+}
+
+/**
+ * Config values the custom commands are discovered with
+ */
+type CustomCommandsConfig = Pick<
+  ProjectConfig,
+  'APP_NAME' | 'APP_WORKSPACE_PATH' | 'APP_CONFIG_FILE_NAME' | 'APP_TRUSTED_WORKSPACES'
+>
+
+/**
+ * Name of the directory of custom commands in an app directory
+ */
+const COMMANDS_DIR = 'commands'
+
+/**
+ * Valid custom command names, as typed on the command line
+ */
+const COMMAND_NAME = /^[a-z0-9][a-z0-9_-]*$/i
+
+/**
+ * Matches the placeholders of a prompt template
+ */
+const PLACEHOLDER = /\$(ARGUMENTS|[1-9])(?![0-9])/g
+
+/**
+ * Get the custom command directories, the one with precedence first
+ */
+function getCustomCommandDirs(
+  config: Pick<ProjectConfig, 'APP_NAME' | 'APP_WORKSPACE_PATH'>,
+): { scope: CustomCommandScope; path: string }[] {
+  return [
+    {
+      scope: 'workspace',
+      path: join(config.APP_WORKSPACE_PATH, getAppDirName(config.APP_NAME), COMMANDS_DIR),
+    },
+    { scope: 'user', path: join(getUserDir(config.APP_NAME), COMMANDS_DIR) },
+  ]
+}
+
+/**
+ * Read a frontmatter list given as a YAML list or a comma separated string
+ */
+const toList = (value: unknown): string[] | undefined =>
+  Array.isArray(value)
+    ? value.map(String)
+    : typeof value === 'string'
+    ? value.split(',').map((item) => item.trim()).filter(Boolean)
+    : undefined
+
+/**
+ * Split a prompt template into its frontmatter attributes and template text
+ *
+ * @throws {Error} if the frontmatter is not valid YAML
+ */
+function parsePromptTemplate(
+  content: string,
+): { attributes: PromptTemplateAttributes; template: string } {
+  if (!hasFrontMatter(content, ['yaml'])) return { attributes: {}, template: content.trim() }
+
+  const { attrs, body } = extract<Record<string, unknown> | null>(content)
+  return {
+    attributes: {
+      description: typeof attrs?.description === 'string' ? attrs.description : undefined,
+      arguments: toList(attrs?.arguments),
+      allowedTools: toList(attrs?.['allowed-tools'] ?? attrs?.allowedTools),
+    },
+    template: body.trim(),
+  }
+}
+
+/**
+ * Fill in the placeholders of a prompt template
+ *
+ * @param template The template text
+ * @param args The arguments given to the command
+ * @returns The prompt
+ */
+function expandPromptTemplate(template: string, args: string[]): string {
+  return template.replace(
+    PLACEHOLDER,
+    (_, name: string) => name === 'ARGUMENTS' ? args.join(' ') : args[Number(name) - 1] ?? '',
+  )
+}
+
+/**
+ * Create the command of a prompt template
+ *
+ * @param name The command name
+ * @param content The content of the template file
+ * @param scope Where the template is defined
+ */
+function createPromptCommand(
+  name: string,
+  content: string,
+  scope: CustomCommandScope,
+): CommandDefinition {
+  const { attributes, template } = parsePromptTemplate(content)
+  const argumentNames = attributes.arguments ?? []
+  // The highest positional placeholder is the number of arguments the template needs
+  const required = Math.max(
+    0,
+    ...[...template.matchAll(PLACEHOLDER)].map(([, placeholder]) => Number(placeholder) || 0),
+  )
+
+  return {
+    name,
+    command: ({ args }: CommandContext) => {
+      const values = args._.map(String)
+      if (values.length < required) {
+        const missing = argumentNames[values.length] ?? `$${values.length + 1}`
+        throw new CommandUsageError(`Missing argument <${missing}>`, [name])
+      }
+
+      const prompt = expandPromptTemplate(template, values)
+      logger.print(
+        args.json
+          ? JSON.stringify(
+            {
+              name,
+              description: attributes.description,
+              allowedTools: attributes.allowedTools ?? [],
+              prompt,
+            },
+            null,
+            2,
+          )
+          : prompt,
+      )
+    },
+    description: attributes.description ?? `Prompt template (${scope})`,
+    options: { boolean: ['json'] },
+    flags: {
+      json: {
+        description: 'Print the prompt with its description and allowed tools as JSON',
+        type: 'boolean',
+      },
+    },
+    usage: [[name, ...argumentNames.map((argument) => `<${argument}>`), '[--json]'].join(' ')],
+  }
+}
+
+/**
+ * Check whether a module export has the shape of a command definition
+ */
+const isCommandDefinition = (value: unknown): value is CommandDefinition =>
+  typeof value === 'object' && value !== null &&
+  typeof (value as CommandDefinition).name === 'string' &&
+  typeof (value as CommandDefinition).command === 'function' &&
+  typeof (value as CommandDefinition).description === 'string'
+
+/**
+ * Import the module of a TypeScript command
+ *
+ * @param name The command name, which the module must default-export a definition of
+ * @param path Path of the module
+ * @returns The command definition
+ * @throws {Error} if the module cannot be imported or does not export the command
+ */
+async function importCustomCommand(name: string, path: string): Promise<CommandDefinition> {
+  const definition = (await import(toFileUrl(path).href)).default
+  if (!isCommandDefinition(definition)) {
+    throw new Error(`${path} does not default-export a command definition`)
+  }
+  if (definition.name !== name) {
+    throw new Error(`${path} exports the command "${definition.name}" instead of "${name}"`)
+  }
+  return definition
+}
+
+/**
+ * Create the placeholder of a TypeScript command, listed without importing its module. Running it
+ * imports the module and runs the command it exports.
+ */
+function createModuleCommand(
+  name: string,
+  path: string,
+  scope: CustomCommandScope,
+): CommandDefinition {
+  return {
+    name,
+    command: async (context: CommandContext) =>
+      await (await importCustomCommand(name, path)).command(context),
+    description: `TypeScript command (${scope})`,
+  }
+}
+
+/**
+ * Check whether the workspace is listed in APP_TRUSTED_WORKSPACES by the user: the setting is
+ * ignored when it comes from a source the workspace controls, its config files or `.env` files
+ */
+function isTrustedWorkspace(config: CustomCommandsConfig, warnings: string[]): boolean {
+  const source = getConfigSource('APP_TRUSTED_WORKSPACES')
+  const userFile = getConfigFiles(config).find(({ scope }) => scope === 'user')?.path
+  const isUserSource = !source || ['default', 'env', 'argument', 'cli'].includes(source.source) ||
+    (source.source === 'file' && userFile !== undefined &&
+      source.origin?.startsWith(`${userFile}:`) === true)
+  if (!isUserSource) {
+    warnings.push(
+      `Ignoring APP_TRUSTED_WORKSPACES set by ${
+        source.origin ?? source.source
+      }, set it in ${userFile} instead`,
+    )
+    return false
+  }
+
+  const workspace = resolve(config.APP_WORKSPACE_PATH)
+  return config.APP_TRUSTED_WORKSPACES.some((path) => resolve(path) === workspace)
+}
+
+/**
+ * Load the commands of a custom command directory
+ *
+ * @param dir The directory
+ * @param scope Where the directory is
+ * @param isTrusted Whether the TypeScript commands of the directory may run, only asked when the
+ * directory has some
+ * @param result The commands found, their modules and warnings about the files skipped
+ */
+async function loadCommandDir(
+  dir: string,
+  scope: CustomCommandScope,
+  isTrusted: () => boolean,
+  result: CustomCommands,
+): Promise<void> {
+  const fileNames: string[] = []
+  try {
+    for await (const entry of Deno.readDir(dir)) {
+      if (entry.isFile) fileNames.push(entry.name)
+    }
+  } catch (error) {
+    if (!(error instanceof Deno.errors.NotFound)) {
+      result.warnings.push(
+        `Ignoring ${dir}: ${error instanceof Error ? error.message : String(error)}`,
+      )
+    }
+    return
+  }
+
+  const modules = fileNames.filter((fileName) => extname(fileName) === '.ts')
+  const trusted = modules.length > 0 && isTrusted()
+  if (!trusted && modules.length > 0) {
+    result.warnings.push(
+      `Ignoring the TypeScript commands in ${dir}: the workspace is not in APP_TRUSTED_WORKSPACES`,
+    )
+  }
+
+  for (const fileName of fileNames.sort()) {
+    const extension = extname(fileName)
+    if (extension !== '.md' && (extension !== '.ts' || !trusted)) continue
+    const name = fileName.slice(0, -extension.length)
+    const path = join(dir, fileName)
+    if (!COMMAND_NAME.test(name)) {
+      result.warnings.push(`Ignoring ${path}: "${name}" is not a valid command name`)
+      continue
+    }
+
+    try {
+      result.commands[name] = extension === '.md'
+        ? createPromptCommand(name, await Deno.readTextFile(path), scope)
+        : createModuleCommand(name, path, scope)
+      if (extension === '.ts') result.modules[name] = path
+    } catch (error) {
+      result.warnings.push(
+        `Ignoring ${path}: ${error instanceof Error ? error.message : String(error)}`,
+      )
+    }
+  }
+}
+
+/**
+ * Discover the custom commands of the workspace and the user, without importing the modules of
+ * TypeScript commands
+ *
+ * @param config The app name, workspace and config files the directories and trust are found with
+ * @param builtins Names of the built-in commands, which custom commands cannot replace
+ * @returns The commands by name, the paths of their modules and warnings about the files skipped
+ */
+async function loadCustomCommands(
+  config: CustomCommandsConfig,
+  builtins: string[],
+): Promise<CustomCommands> {
+  const result: CustomCommands = { commands: {}, modules: {}, warnings: [] }
+
+  for (const { scope, path } of getCustomCommandDirs(config)) {
+    // The user's own commands are trusted, the workspace's only when the user says so
+    const isTrusted = () => scope === 'user' || isTrustedWorkspace(config, result.warnings)
+    const found: CustomCommands = { commands: {}, modules: {}, warnings: result.warnings }
+    await loadCommandDir(path, scope, isTrusted, found)
+
+    for (const [name, definition] of Object.entries(found.commands)) {
+      if (builtins.includes(name)) {
+        result.warnings.push(
+          `Ignoring the ${scope} command "${name}" in ${path}: "${name}" is built in`,
+        )
+      } else if (result.commands[name]) {
+        logger.debug(`The workspace command "${name}" hides the user command in ${path}`)
+      } else {
+        result.commands[name] = definition
+        if (found.modules[name]) result.modules[name] = found.modules[name]
+      }
+    }
+  }
+  return result
+}
+
+export type { CustomCommands, CustomCommandsConfig, CustomCommandScope, PromptTemplateAttributes }
+export { expandPromptTemplate, getCustomCommandDirs, importCustomCommand, loadCustomCommands }
@@ -4,22 +4,47 @@
  * Main entry point.
  */
 import cli from './cli.ts'
-import { getConfig } from './config.ts'
-import { LogLevel } from './utils/logger.ts'
+import {
+  getAppliedDotenvFiles,
+  getConfig,
+  getConfigSource,
+  getConfigWarnings,
+  onConfigChange,
+} from './config.ts'
+import { LogLevel, parseLogLevel } from './utils/logger.ts'
 import logger from './utils/logger.ts'
 
 const config = await getConfig()
 
-logger.setConfig({
-  name: config.APP_NAME,
-  level: {
-    'development': LogLevel.DEBUG,
-    'test': LogLevel.WARN,
-    'production': LogLevel.INFO,
-  }[config.APP_ENV] ?? LogLevel.INFO,
-  colors: true,
-  timestamp: config.APP_ENV !== 'production',
-})
+/**
+ * Configure the logger from the configuration
+ */
+function configureLogger(): void {
+  logger.setConfig({
+    name: config.APP_NAME,
+    // An explicitly configured log level wins over the default level of the environment
+    level: getConfigSource('APP_LOG_LEVEL')?.source !== 'default'
+      ? parseLogLevel(config.APP_LOG_LEVEL)
+      : {
+        'development': LogLevel.DEBUG,
+        'test': LogLevel.WARN,
+        'production': LogLevel.INFO,
+      }[config.APP_ENV] ?? LogLevel.INFO,
+    colors: true,
+    timestamp: config.APP_ENV !== 'production',
+  })
+}
+
+configureLogger()
+onConfigChange(['APP_NAME', 'APP_ENV', 'APP_LOG_LEVEL'], configureLogger)
+
+const dotenvFiles = getAppliedDotenvFiles()
+logger.debug(
+  dotenvFiles.length > 0
+    ? `Applied .env files: ${dotenvFiles.join(', ')}`
+    : 'No .env files applied',
+)
+for (const warning of getConfigWarnings()) logger.warn(warning)
 
 if (import.meta.main) {
   await cli()
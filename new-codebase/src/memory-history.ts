@@ -0,0 +1,178 @@
+/**
+ * @module memory-history
+ * @description Versioned snapshots of memory files, so that edits can be reviewed and undone even
+ * for files that are not tracked by git (personal workspace memory and user memory).
+ *
+ * Every memory file gets a directory in the history directory, named after a hash of its path:
+ * ```
+ * history/
+ *   3f2a9c1b0d4e5f67/
+ *     index.json  // path of the memory file and its revisions
+ *     1.md        // content of revision 1
+ *     2.md
+ * ```
+ * Revisions beyond the retention limits (a maximum count and age per file) are pruned when new
+ * ones are recorded; the latest revision is always kept.
+ */
+import { join } from '@std/path'
+import { exists } from '@std/fs'
+import { withFileLock, writeTextFileAtomic } from './utils/atomic-write.ts'
+
+/**
+ * A recorded version of a memory file
+ */
+export type MemoryRevision = {
+  /** Revision number, increasing for every snapshot of the file */
+  rev: number
+  /** When the snapshot was recorded (ISO 8601) */
+  createdAt: string
+  /** The change that produced this content, e.g. "add", "edit" or "external" for changes made outside */
+  operation: string
+  /** SHA-256 hash of the content */
+  hash: string
+  /** Size of the content in bytes */
+  size: number
+  /** The revision that was restored, for snapshots recorded by an undo */
+  restoredFrom?: number
+}
+
+/**
+ * Retention limits of the memory history
+ */
+export type MemoryHistoryOptions = {
+  /** Maximum number of revisions kept per memory file, 0 for no limit */
+  limit?: number
+  /** Maximum age of revisions in days, 0 for no limit */
+  maxAgeDays?: number
+}
+
+type MemoryHistoryIndex = {
+  path: string
+  revisions: MemoryRevision[]
+}
+
+const DAY = 24 * 60 * 60 * 1000
+
+const hashText = async (text: string): Promise<string> =>
+  Array.from(
+    new Uint8Array(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text))),
+    (byte) => byte.toString(16).padStart(2, '0'),
+  ).join('')
+
+/**
+ * Snapshot store for memory files
+ */
+class MemoryHistory {
+  private historyDir: string
+  private limit: number
+  private maxAgeDays: number
+
+  /**
+   * Create a memory history store
+   * @param historyDir Directory the snapshots are stored in
+   * @param options Optional retention limits
+   */
+  constructor(historyDir: string, { limit = 50, maxAgeDays = 90 }: MemoryHistoryOptions = {}) {
+    this.historyDir = historyDir
+    this.limit = limit
+    this.maxAgeDays = maxAgeDays
+  }
+
+  /**
+   * Get the directory holding the snapshots of a memory file
+   */
+  private async getFileDir(path: string): Promise<string> {
+    return join(this.historyDir, (await hashText(path)).slice(0, 16))
+  }
+
+  private async readIndex(path: string): Promise<MemoryHistoryIndex> {
+    const indexPath = join(await this.getFileDir(path), 'index.json')
+    if (!(await exists(indexPath))) return { path, revisions: [] }
+    return JSON.parse(await Deno.readTextFile(indexPath)) as MemoryHistoryIndex
+  }
+
+  /**
+   * Record a snapshot of a memory file. Nothing is recorded if the content is the same as the
+   * latest revision.
+   * @param path Path of the memory file
+   * @param content Content to record
+   * @param operation The change that produced the content
+   * @param restoredFrom The revision that was restored, when recording an undo
+   * @returns The recorded revision, or undefined if the content was already the latest revision
+   */
+  async record(
+    path: string,
+    content: string,
+    operation: string,
+    restoredFrom?: number,
+  ): Promise<MemoryRevision | undefined> {
+    const fileDir = await this.getFileDir(path)
+    const indexPath = join(fileDir, 'index.json')
+    await Deno.mkdir(fileDir, { recursive: true })
+
+    return await withFileLock(indexPath, async () => {
+      const index = await this.readIndex(path)
+      const hash = await hashText(content)
+      const latest = index.revisions.at(-1)
+      if (latest?.hash === hash) return undefined
+
+      const revision: MemoryRevision = {
+        rev: (latest?.rev ?? 0) + 1,
+        createdAt: new Date().toISOString(),
+        operation,
+        hash,
+        size: new TextEncoder().encode(content).length,
+        ...(restoredFrom === undefined ? {} : { restoredFrom }),
+      }
+      await writeTextFileAtomic(join(fileDir, `${revision.rev}.md`), content)
+
+      const pruned = this.getPrunedRevisions([...index.revisions, revision])
+      for (const { rev } of pruned) {
+        await Deno.remove(join(fileDir, `${rev}.md`)).catch(() => {})
+      }
+      index.revisions = [...index.revisions, revision].filter((entry) => !pruned.includes(entry))
+      await writeTextFileAtomic(indexPath, JSON.stringify(index, null, 2))
+
+      return revision
+    })
+  }
+
+  /**
+   * Get the revisions that fall outside the retention limits, never including the latest one
+   */
+  private getPrunedRevisions(revisions: MemoryRevision[]): MemoryRevision[] {
+    const overLimit = this.limit > 0 ? revisions.length - this.limit : 0
+    const cutoff = this.maxAgeDays > 0 ? Date.now() - this.maxAgeDays * DAY : -Infinity
+
+    return revisions.slice(0, -1).filter((revision, index) =>
+      index < overLimit || new Date(revision.createdAt).getTime() < cutoff
+    )
+  }
+
+  /**
+   * List the recorded revisions of a memory file
+   * @param path Path of the memory file
+   * @returns Revisions, oldest first
+   */
+  async list(path: string): Promise<MemoryRevision[]> {
+    return (await this.readIndex(path)).revisions
+  }
+
+  /**
+   * Read the content of a revision
+   * @param path Path of the memory file
+   * @param rev Revision number
+   * @returns The content of the revision
+   * @throws {Error} If the revision does not exist (or was pruned)
+   */
+  async read(path: string, rev: number): Promise<string> {
+    const revisions = await this.list(path)
+    if (!revisions.some((revision) => revision.rev === rev)) {
+      throw new Error(`No revision ${rev} in the history of ${path}`)
+    }
+    return await Deno.readTextFile(join(await this.getFileDir(path), `${rev}.md`))
+  }
+}
+
+export { MemoryHistory }
+export default MemoryHistory
@@ -3,15 +3,111 @@
  * @description Memory management for ${config.APP_NAME} CLI
  * Loads ${config.APP_NAME.toUpperCase()}.md files (workspace shared), ${config.APP_NAME.toUpperCase()}.local.md (workspace personal),
  * and ~/.${config.APP_NAME.toLowerCase()}/${config.APP_NAME.toUpperCase()}.md (global user memory).
+ *
+ * Workspace memory files are discovered hierarchically: every directory from the workspace up to
+ * the repository root (the first directory containing `.git`, never going above the home directory)
+ * is checked, and memory files in subdirectories of the workspace are discovered up front but only
+ * read once work touches files under them (see `Memory.loadNestedMemory`).
+ *
+ * Memory files can pull in other files with import lines such as `@docs/conventions.md` or
+ * `@~/shared/style.md`. Imports are resolved relative to the importing file and expanded
+ * recursively (up to MAX_IMPORT_DEPTH levels) when the combined memory is built.
+ *
+ * Memory files, and rule files in `.${config.APP_NAME.toLowerCase()}/rules/`, can start with YAML frontmatter:
+ * ```md
+ * ---
+ * description: Migration safety
+ * paths: ['migrations/**']
+ * alwaysApply: false
+ * ---
+ * - Never edit existing migration files
+ * ```
+ * Files with `paths` globs (and without `alwaysApply: true`) are conditional: they are left out of
+ * the combined memory unless it is requested for paths matching one of the globs.
+ *
+ * Instruction files written for other assistants (AGENTS.md, CLAUDE.md, .cursorrules,
+ * .cursor/rules/*.mdc and .github/copilot-instructions.md) can be loaded alongside memory files
+ * by enabling the compatibility layer (`APP_MEMORY_COMPATIBILITY` or the `compatibility` option),
+ * or copied into the workspace memory once with `Memory.importCompatibilityFiles`.
+ *
+ * All writes hold an advisory lock on the file and replace it atomically. The on-disk state of each
+ * file is fingerprinted when it is loaded, so edits made outside this process in the meantime are
+ * merged (for appends and removals of single entries) or cause the write to be refused, instead of
+ * being silently overwritten.
+ *
+ * Memory is scanned for secrets (API keys, tokens, private keys, high-entropy strings) before it is
+ * written by `Memory.addMemory` and before it is returned as combined memory. Depending on
+ * `APP_MEMORY_SECRETS` (or the `secrets` option) entries with secrets are refused, redacted, or
+ * stored after confirmation. Secrets in the combined memory are always redacted, whatever the mode.
+ *
+ * The combined memory is kept within a token budget (`APP_MEMORY_TOKEN_BUDGET`). When the sections
+ * do not fit, they are admitted by priority (`APP_MEMORY_PRIORITY`, by default personal workspace
+ * memory first and user memory last, with more specific files first within a type); sections that
+ * no longer fit are truncated or elided, leaving a marker in their place. See
+ * `Memory.getTokenReport` for the tokens each memory file contributes.
+ *
+ * Organizations can ship managed policy memory in a system-wide location (`/etc/<app>/`, the
+ * application support or program data directory on macOS and Windows, or `APP_MEMORY_POLICY_PATH`).
+ * Policy memory always comes first in the combined memory, is never truncated by the token budget
+ * and cannot be edited through the memory manager.
+ *
+ * Every write made through the memory manager is recorded as a revision in the memory history
+ * (`~/.${config.APP_NAME.toLowerCase()}/history/`, see `MemoryHistory`), so edits can be reviewed
+ * with `Memory.diffRevision` and reverted with `Memory.undo`.
+ *
+ * Long-running sessions can watch the loaded memory files, and the files they import, with
+ * `Memory.watch` (enabled by default in development). Changes made outside the process reload only
+ * the affected memory files and are announced to `Memory.onChange` listeners.
  */
 
-import { join } from '@std/path'
-import { exists } from '@std/fs'
+import { debounce, type DebouncedFunction } from '@std/async'
+import { basename, dirname, globToRegExp, join, relative, resolve, SEPARATOR } from '@std/path'
+import { exists, walk } from '@std/fs'
+import { extract } from '@std/front-matter/yaml'
+import { test as hasFrontMatter } from '@std/front-matter'
 import logger from './utils/logger.ts'
+import gracefulShutdown from './utils/graceful-shutdown.ts'
+import { DIRS_TO_SKIP } from './utils/package-info.ts'
+import { withFileLock, writeTextFileAtomic } from './utils/atomic-write.ts'
+import { diffLines } from './utils/line-diff.ts'
+import MemoryHistory, { type MemoryRevision } from './memory-history.ts'
+import { estimateTokens, truncateToTokens } from './utils/token-estimator.ts'
+import {
+  formatFinding,
+  redactSecrets,
+  scanSecrets,
+  type SecretFinding,
+} from './utils/secret-scanner.ts'
 import { getConfig } from './config.ts'
 
 const config = await getConfig()
 
+/**
+ * Maximum depth of nested `@path` imports followed from a single memory file
+ */
+const MAX_IMPORT_DEPTH = 5
+
+/**
+ * Maximum depth of subdirectories searched below the workspace for nested memory files
+ */
+const MAX_NESTED_DEPTH = 10
+
+/**
+ * Delay (ms) to wait for further file system events before reloading watched memory files
+ */
+const WATCH_DEBOUNCE = 100
+
+/**
+ * Matches a line that only contains an import directive, e.g. `@docs/style.md` or `@~/notes.md`.
+ * The target must look like a path (contain a `.` or `/`) so plain `@mentions` are left alone.
+ */
+const IMPORT_DIRECTIVE = /^\s*@(\S*[./]\S*)\s*$/
+
+/**
+ * Resolve the user's home directory across platforms
+ */
+const getHomeDir = (): string => Deno.env.get('HOME') || Deno.env.get('USERPROFILE') || '.'
+
 /**
  * Transform project name into a valid filename
  * @param projectName The original project name
@@ -19,11 +115,11 @@ const config = await getConfig()
  * @returns A sanitized filename suitable for file system use
  */
 const toFileName = (
-  projectName: string, 
-  options: { 
-    uppercase?: boolean, 
-    extension?: string 
-  } = {}
+  projectName: string,
+  options: {
+    uppercase?: boolean
+    extension?: string
+  } = {},
 ): string => {
   // Remove any non-alphanumeric characters and replace with hyphen
   const sanitized = projectName
@@ -35,23 +131,147 @@ const toFileName = (
     .replace(/^-+|-+$/g, '')
 
   // Apply uppercase if specified
-  const formatted = options.uppercase 
-    ? sanitized.toUpperCase() 
-    : sanitized
+  const formatted = options.uppercase ? sanitized.toUpperCase() : sanitized
 
   // Add extension if provided
-  return options.extension 
-    ? `${formatted}.${options.extension}` 
-    : formatted
+  return options.extension ? `${formatted}.${options.extension}` : formatted
+}
+
+/**
+ * Directory (relative to a workspace directory) that holds rule files
+ */
+const RULES_DIR = join(`.${toFileName(config.APP_NAME)}`, 'rules')
+
+/**
+ * Get the path of the managed policy memory file: APP_MEMORY_POLICY_PATH if set, otherwise the
+ * system-wide location for the platform
+ */
+const getPolicyPath = (): string => {
+  if (config.APP_MEMORY_POLICY_PATH) return resolve(config.APP_MEMORY_POLICY_PATH)
+
+  const fileName = toFileName(config.APP_NAME, { uppercase: true, extension: 'md' })
+  switch (Deno.build.os) {
+    case 'windows':
+      return join(Deno.env.get('ProgramData') || 'C:\\ProgramData', config.APP_NAME, fileName)
+    case 'darwin':
+      return join('/Library/Application Support', config.APP_NAME, fileName)
+    default:
+      return join('/etc', toFileName(config.APP_NAME), fileName)
+  }
 }
 
 /**
  * Memory file types
  */
 export enum MemoryFileType {
+  POLICY = 'policy',
   WORKSPACE = 'workspace',
   WORKSPACE_LOCAL = 'workspace-local',
   USER = 'user',
+  RULE = 'rule',
+  AGENTS = 'agents',
+  CLAUDE = 'claude',
+  CURSOR_RULES = 'cursor-rules',
+  CURSOR_RULE = 'cursor-rule',
+  COPILOT = 'copilot',
+}
+
+/**
+ * Check whether a value is a memory file type, e.g. one of APP_MEMORY_PRIORITY
+ */
+const isMemoryFileType = (value: string): value is MemoryFileType =>
+  (Object.values(MemoryFileType) as string[]).includes(value)
+
+/**
+ * How memory entries containing secrets are handled when they are added:
+ * - `refuse`: entries with secrets are not stored
+ * - `redact`: secrets are replaced with `[REDACTED:<rule>]` markers
+ * - `confirm`: asks before storing entries with secrets
+ *
+ * Secrets in memory that is injected are redacted in every mode.
+ */
+export type MemorySecretsMode = 'refuse' | 'redact' | 'confirm'
+
+/**
+ * Options for the memory manager
+ */
+export type MemoryOptions = {
+  /** Load instruction files written for other assistants (defaults to APP_MEMORY_COMPATIBILITY) */
+  compatibility?: boolean
+  /** How memory entries containing secrets are handled when added (defaults to APP_MEMORY_SECRETS) */
+  secrets?: MemorySecretsMode
+  /** Maximum estimated tokens of the combined memory, 0 for no limit (defaults to APP_MEMORY_TOKEN_BUDGET) */
+  tokenBudget?: number
+  /** Memory file types from highest to lowest priority when the budget is exceeded (defaults to APP_MEMORY_PRIORITY) */
+  priority?: MemoryFileType[]
+  /** Watch memory files for changes once they are loaded (defaults to true in development) */
+  watch?: boolean
+}
+
+/**
+ * Instruction files of other assistants that map to a single memory file, relative to the
+ * directory they apply to. Cursor's `.cursor/rules/*.mdc` files are discovered separately.
+ */
+const COMPATIBILITY_FILES: { type: MemoryFileType; path: string; label: string }[] = [
+  { type: MemoryFileType.AGENTS, path: 'AGENTS.md', label: 'AGENTS.md Instructions' },
+  { type: MemoryFileType.CLAUDE, path: 'CLAUDE.md', label: 'CLAUDE.md Instructions' },
+  { type: MemoryFileType.CURSOR_RULES, path: '.cursorrules', label: 'Cursor Rules' },
+  {
+    type: MemoryFileType.COPILOT,
+    path: join('.github', 'copilot-instructions.md'),
+    label: 'Copilot Instructions',
+  },
+]
+
+/**
+ * Directory (relative to a workspace directory) that holds Cursor `.mdc` rule files
+ */
+const CURSOR_RULES_DIR = join('.cursor', 'rules')
+
+/**
+ * Marker written above content copied into workspace memory by `importCompatibilityFiles`,
+ * used to avoid importing the same file twice
+ */
+const toImportMarker = (source: string): string => `<!-- imported from ${source} -->`
+
+/**
+ * Frontmatter attributes that scope a memory file or rule file to parts of the workspace
+ */
+export type MemoryRuleAttributes = {
+  /** Globs the file applies to, relative to the directory the memory applies to */
+  paths?: string[]
+  /** Short description of what the rule is about */
+  description?: string
+  /** Always include the file, even when it declares `paths` */
+  alwaysApply?: boolean
+}
+
+/**
+ * A file pulled into memory through an `@path` import directive
+ */
+export type MemoryImport = {
+  /** The directive as written in the importing file, e.g. `@docs/style.md` */
+  directive: string
+  /** Absolute path of the imported file */
+  path: string
+  /** Absolute path of the file that declared the import */
+  importedFrom: string
+  /** Raw content of the imported file */
+  content: string
+  /** Depth in the import graph (1 for imports declared directly in a memory file) */
+  depth: number
+  /** Imports declared by the imported file */
+  imports: MemoryImport[]
+}
+
+/**
+ * On-disk state of a memory file when it was last read or written, used to detect external edits
+ */
+export type MemoryFileFingerprint = {
+  /** Modification time in milliseconds, if the platform reports one */
+  mtime: number | null
+  /** SHA-256 hash of the content */
+  hash: string
 }
 
 /**
@@ -62,6 +282,347 @@ export type MemoryFile = {
   path: string
   content: string
   exists: boolean
+  /** Directory the memory applies to */
+  directory: string
+  /** Whether the file is managed policy memory, which cannot be edited */
+  managed: boolean
+  /** Whether the file lives in a subdirectory of the workspace and is only loaded on demand */
+  nested: boolean
+  /** Whether the file has been read from disk */
+  loaded: boolean
+  /** Import graph of the file, in the order the directives appear */
+  imports: MemoryImport[]
+  /** Attributes parsed from the file's frontmatter */
+  attributes: MemoryRuleAttributes
+  /** On-disk state when the file was loaded, undefined if it did not exist */
+  fingerprint?: MemoryFileFingerprint
+}
+
+/**
+ * A single bullet entry in a memory file
+ */
+export type MemoryEntry = {
+  /**
+   * Stable identifier derived from the entry text, and its occurrence for duplicate entries.
+   * Only removing an earlier duplicate of the same text changes it.
+   */
+  id: string
+  /** Position of the entry among the bullets of its file (1-based) */
+  index: number
+  /** Line number of the entry in its file (1-based) */
+  line: number
+  /** Entry text without the bullet marker */
+  text: string
+  type: MemoryFileType
+  path: string
+}
+
+/**
+ * A titled section of the combined memory and the file it came from
+ */
+export type MemorySection = {
+  title: string
+  file: MemoryFile
+  /** Section content with imports expanded */
+  content: string
+}
+
+/**
+ * How many tokens a memory file contributes to the combined memory
+ */
+export type MemoryTokenUsage = {
+  title: string
+  file: MemoryFile
+  /** Estimated tokens of the full section */
+  tokens: number
+  /** Estimated tokens of the section as it appears in the combined memory, markers included */
+  includedTokens: number
+  /** Whether the section was included in full, truncated, or replaced by a marker */
+  status: 'included' | 'truncated' | 'elided'
+}
+
+/**
+ * A memory file that was reloaded because it, or a file it imports, changed on disk
+ */
+export type MemoryChangeEvent = {
+  kind: 'created' | 'modified' | 'removed'
+  /** The reloaded memory file */
+  file: MemoryFile
+  /** The paths that changed: the memory file itself and/or files it imports */
+  changedPaths: string[]
+}
+
+export type MemoryChangeListener = (event: MemoryChangeEvent) => void
+
+/**
+ * Token usage of the combined memory against the memory budget
+ */
+export type MemoryTokenReport = {
+  /** Maximum estimated tokens of the combined memory, 0 for no limit */
+  budget: number
+  /** Estimated tokens of all applicable sections */
+  tokens: number
+  /** Estimated tokens of the sections as they appear in the combined memory */
+  includedTokens: number
+  /** Usage per memory file, ordered from most general to most specific */
+  sections: MemoryTokenUsage[]
+}
+
+/**
+ * Matches a top-level markdown bullet line, capturing its text
+ */
+const BULLET_LINE = /^[-*]\s+(.+?)\s*$/
+
+/**
+ * Matches a frontmatter block at the start of a file, capturing its raw content
+ */
+const FRONT_MATTER_BLOCK = /^---\r?\n([\s\S]*?)\r?\n---(?:\r?\n|$)/
+
+/**
+ * Extract raw frontmatter attributes, falling back to reading plain `key: value` lines when the
+ * frontmatter is not valid YAML (Cursor rules commonly contain unquoted globs such as `*.md`)
+ */
+const extractAttributes = (
+  content: string,
+  path: string,
+): { attrs: Record<string, unknown>; body: string } => {
+  try {
+    const { attrs, body } = extract<Record<string, unknown> | null>(content)
+    return { attrs: attrs ?? {}, body }
+  } catch (error) {
+    const match = content.match(FRONT_MATTER_BLOCK)
+    if (!match) {
+      logger.warn(`Ignoring invalid frontmatter in ${path}: ${error}`)
+      return { attrs: {}, body: content }
+    }
+
+    logger.debug(`Frontmatter in ${path} is not valid YAML, reading it as key/value lines`)
+    const attrs = Object.fromEntries(
+      match[1].split(/\r?\n/).flatMap((line) => {
+        const pair = line.match(/^(\w+):\s*(.*?)\s*$/)
+        if (!pair) return []
+        const [, key, value] = pair
+        return [[key, value === 'true' ? true : value === 'false' ? false : value]]
+      }),
+    )
+    return { attrs, body: content.slice(match[0].length) }
+  }
+}
+
+/**
+ * Split a memory file into its frontmatter attributes and markdown body.
+ * Cursor's `globs` attribute is accepted as an alias of `paths`.
+ */
+const parseFrontMatter = (
+  content: string,
+  path: string,
+): { attributes: MemoryRuleAttributes; body: string } => {
+  if (!hasFrontMatter(content, ['yaml'])) return { attributes: {}, body: content }
+
+  const { attrs, body } = extractAttributes(content, path)
+  const globs = attrs.paths ?? attrs.globs
+  const paths = typeof globs === 'string' ? globs.split(',') : globs
+  return {
+    attributes: {
+      paths: Array.isArray(paths)
+        ? paths.map((glob) => String(glob).trim()).filter(Boolean)
+        : undefined,
+      description: typeof attrs.description === 'string' ? attrs.description : undefined,
+      alwaysApply: attrs.alwaysApply === true,
+    },
+    body,
+  }
+}
+
+/**
+ * Whether a memory file only applies to specific paths
+ */
+const isConditional = (file: MemoryFile): boolean =>
+  (file.attributes.paths?.length ?? 0) > 0 && !file.attributes.alwaysApply
+
+/**
+ * Whether any of the given absolute paths matches one of a memory file's `paths` globs.
+ * Globs are matched against paths relative to the directory the memory applies to.
+ */
+const matchesPaths = (file: MemoryFile, paths: string[]): boolean => {
+  const patterns = (file.attributes.paths ?? []).map((glob) =>
+    globToRegExp(glob, { extended: true, globstar: true })
+  )
+  return paths.some((path) => {
+    const relativePath = relative(file.directory, path).split(SEPARATOR).join('/')
+    return !relativePath.startsWith('..') &&
+      patterns.some((pattern) => pattern.test(relativePath))
+  })
+}
+
+/**
+ * Hash content with SHA-256
+ * @returns Hex encoded hash
+ */
+const hashContent = async (content: string): Promise<string> =>
+  Array.from(
+    new Uint8Array(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(content))),
+    (byte) => byte.toString(16).padStart(2, '0'),
+  ).join('')
+
+/**
+ * Read a file together with its fingerprint
+ * @returns The content and fingerprint, or undefined if the file does not exist
+ */
+async function readWithFingerprint(
+  path: string,
+): Promise<{ content: string; fingerprint: MemoryFileFingerprint } | undefined> {
+  try {
+    const [info, content] = await Promise.all([Deno.stat(path), Deno.readTextFile(path)])
+    return {
+      content,
+      fingerprint: { mtime: info.mtime?.getTime() ?? null, hash: await hashContent(content) },
+    }
+  } catch (error) {
+    if (error instanceof Deno.errors.NotFound) return undefined
+    throw error
+  }
+}
+
+/**
+ * Whether a file changed on disk between two fingerprints. Only the content hash decides: merely
+ * touching a file is not a conflict, and an edit that keeps the mtime (coarse timestamps, or two
+ * writes in the same tick) still is one.
+ */
+const hasChanged = (
+  known: MemoryFileFingerprint | undefined,
+  current: MemoryFileFingerprint | undefined,
+): boolean => !known || !current ? known !== current : known.hash !== current.hash
+
+/**
+ * Derive a short stable id for a memory entry from its text (32-bit FNV-1a hash)
+ */
+const toEntryId = (text: string): string => {
+  let hash = 0x811c9dc5
+  for (const char of text.trim()) {
+    hash ^= char.codePointAt(0) ?? 0
+    hash = Math.imul(hash, 0x01000193) >>> 0
+  }
+  return hash.toString(16).padStart(8, '0')
+}
+
+/**
+ * Find the top-level bullet entries in memory file content. Entries with the same text get the
+ * hash of the text as id for their first occurrence, and the hash with the occurrence number
+ * (`<hash>-2`, `<hash>-3`, ...) for the following ones, so every entry has its own id.
+ */
+const parseEntries = (content: string): { id: string; text: string; line: number }[] => {
+  const occurrences = new Map<string, number>()
+  return content.split('\n').flatMap((line, lineIndex) => {
+    const match = line.match(BULLET_LINE)
+    if (!match) return []
+
+    const hash = toEntryId(match[1])
+    const occurrence = (occurrences.get(hash) ?? 0) + 1
+    occurrences.set(hash, occurrence)
+    const id = occurrence === 1 ? hash : `${hash}-${occurrence}`
+    return [{ id, text: match[1], line: lineIndex + 1 }]
+  })
+}
+
+/**
+ * Split content into lines, tagging the ones that are import directives.
+ * Lines inside fenced code blocks are never treated as imports.
+ */
+const splitImportLines = (content: string): { line: string; directive?: string }[] => {
+  let inCodeBlock = false
+  return content.split('\n').map((line) => {
+    if (line.trimStart().startsWith('```')) inCodeBlock = !inCodeBlock
+    const match = inCodeBlock ? null : line.match(IMPORT_DIRECTIVE)
+    return match ? { line, directive: `@${match[1]}` } : { line }
+  })
+}
+
+/**
+ * Resolve the target of an import directive relative to the file that declares it
+ */
+const resolveImportPath = (directive: string, importedFrom: string): string => {
+  const target = directive.slice(1)
+  return target.startsWith('~/')
+    ? join(getHomeDir(), target.slice(2))
+    : resolve(dirname(importedFrom), target)
+}
+
+/**
+ * Recursively read the files imported by a memory file
+ * @param content Content of the importing file
+ * @param importedFrom Absolute path of the importing file
+ * @param depth Depth of the imports being resolved
+ * @param ancestors Paths already on the current import chain, used to detect cycles
+ * @returns The import graph for the content
+ */
+async function resolveImports(
+  content: string,
+  importedFrom: string,
+  depth = 1,
+  ancestors: Set<string> = new Set([importedFrom]),
+): Promise<MemoryImport[]> {
+  const directives = new Set(
+    splitImportLines(content).flatMap(({ directive }) => directive ? [directive] : []),
+  )
+  const imports: MemoryImport[] = []
+
+  for (const directive of directives) {
+    const path = resolveImportPath(directive, importedFrom)
+
+    if (ancestors.has(path)) {
+      logger.warn(`Skipping circular memory import ${directive} in ${importedFrom}`)
+      continue
+    }
+    if (depth > MAX_IMPORT_DEPTH) {
+      logger.warn(
+        `Skipping memory import ${directive} in ${importedFrom}: exceeds maximum depth of ${MAX_IMPORT_DEPTH}`,
+      )
+      continue
+    }
+
+    try {
+      const importedContent = await Deno.readTextFile(path)
+      logger.debug(`Imported memory file: ${path} (from ${importedFrom}, depth ${depth})`)
+      imports.push({
+        directive,
+        path,
+        importedFrom,
+        content: importedContent,
+        depth,
+        imports: await resolveImports(
+          importedContent,
+          path,
+          depth + 1,
+          new Set([...ancestors, path]),
+        ),
+      })
+    } catch (error) {
+      logger.debug(`Could not import ${directive} from ${importedFrom}: ${error}`)
+    }
+  }
+
+  return imports
+}
+
+/**
+ * Get every file in an import graph, depth first
+ */
+const flattenImports = (imports: MemoryImport[]): MemoryImport[] =>
+  imports.flatMap((entry) => [entry, ...flattenImports(entry.imports)])
+
+/**
+ * Replace import directive lines with the (recursively expanded) content they import.
+ * Directives that could not be resolved are left untouched.
+ */
+const expandImports = (content: string, imports: MemoryImport[]): string => {
+  if (imports.length === 0) return content
+  const importsByDirective = new Map(imports.map((entry) => [entry.directive, entry]))
+
+  return splitImportLines(content).map(({ line, directive }) => {
+    const entry = directive ? importsByDirective.get(directive) : undefined
+    return entry ? expandImports(entry.content, entry.imports).trim() : line
+  }).join('\n')
 }
 
 /**
@@ -69,15 +630,42 @@ export type MemoryFile = {
  */
 class Memory {
   private baseDir: string
-  private memoryFiles: Map<MemoryFileType, MemoryFile> = new Map()
+  private compatibility: boolean
+  private secrets: MemorySecretsMode
+  /** Files warned about containing secrets, by path and content hash */
+  private secretWarnings = new Set<string>()
+  private tokenBudget: number
+  private priority: MemoryFileType[]
+  private watchEnabled: boolean
+  private watcher?: Deno.FsWatcher
+  private watchedDirs: string[] = []
+  private changedPaths = new Set<string>()
+  private reloadChanges?: DebouncedFunction<[]>
+  private changeListeners = new Set<MemoryChangeListener>()
+  private hasShutdownHandler = false
+  private history: MemoryHistory
+  private memoryFiles: Map<string, MemoryFile> = new Map()
   private combinedMemory = ''
 
   /**
    * Create a new memory manager
-   * @param baseDir Base directory for project memory files (usually cwd)
+   * @param baseDir Base directory for project memory files (usually the workspace path)
+   * @param options Optional memory manager options
    */
-  constructor(baseDir: string = Deno.cwd()) {
-    this.baseDir = baseDir
+  constructor(baseDir: string = config.APP_WORKSPACE_PATH, options: MemoryOptions = {}) {
+    this.baseDir = resolve(baseDir)
+    this.compatibility = options.compatibility ?? config.APP_MEMORY_COMPATIBILITY
+    this.secrets = options.secrets ?? config.APP_MEMORY_SECRETS
+    this.tokenBudget = options.tokenBudget ?? config.APP_MEMORY_TOKEN_BUDGET
+    this.priority = options.priority ?? config.APP_MEMORY_PRIORITY.filter(isMemoryFileType)
+    this.watchEnabled = options.watch ?? config.APP_ENV === 'development'
+    this.history = new MemoryHistory(
+      join(getHomeDir(), `.${toFileName(config.APP_NAME)}`, 'history'),
+      {
+        limit: config.APP_MEMORY_HISTORY_LIMIT,
+        maxAgeDays: config.APP_MEMORY_HISTORY_MAX_AGE,
+      },
+    )
     this.initializeMemoryFiles()
   }
 
@@ -85,87 +673,736 @@ class Memory {
    * Initialize memory file paths
    */
   private initializeMemoryFiles(): void {
-    // Workspace memory files
-    this.memoryFiles.set(MemoryFileType.WORKSPACE, {
-      type: MemoryFileType.WORKSPACE,
-      path: join(this.baseDir, `${toFileName(config.APP_NAME, { uppercase: true, extension: 'md' })}`),
-      content: '',
-      exists: false,
-    })
-
-    this.memoryFiles.set(MemoryFileType.WORKSPACE_LOCAL, {
-      type: MemoryFileType.WORKSPACE_LOCAL,
-      path: join(this.baseDir, `${toFileName(config.APP_NAME, { uppercase: true, extension: 'local.md' })}`),
-      content: '',
-      exists: false,
+    // Managed policy memory in a system-wide location
+    const policyPath = getPolicyPath()
+    this.setFile({
+      ...this.createFile(MemoryFileType.POLICY, dirname(policyPath)),
+      path: policyPath,
     })
 
     // User global memory file in ~/.{project-name}/{project-name}.md
-    const homeDir = Deno.env.get('HOME') || Deno.env.get('USERPROFILE') || '.'
-    this.memoryFiles.set(MemoryFileType.USER, {
-      type: MemoryFileType.USER,
-      path: join(homeDir, `.${toFileName(config.APP_NAME)}`, `${toFileName(config.APP_NAME, { uppercase: true, extension: 'md' })}`),
+    const userDir = join(getHomeDir(), `.${toFileName(config.APP_NAME)}`)
+    this.setFile(this.createFile(MemoryFileType.USER, userDir))
+
+    // Workspace memory files
+    for (const file of this.createWorkspaceFiles(this.baseDir)) {
+      this.setFile(file)
+    }
+  }
+
+  /**
+   * Create an unloaded memory file entry
+   */
+  private createFile(type: MemoryFileType, directory: string, nested = false): MemoryFile {
+    const extension = type === MemoryFileType.WORKSPACE_LOCAL ? 'local.md' : 'md'
+    return {
+      type,
+      path: join(directory, toFileName(config.APP_NAME, { uppercase: true, extension })),
       content: '',
       exists: false,
-    })
+      directory,
+      managed: type === MemoryFileType.POLICY,
+      nested,
+      loaded: false,
+      imports: [],
+      attributes: {},
+    }
   }
 
   /**
-   * Load all memory files
+   * Create the shared and personal workspace memory file entries for a directory
    */
-  async loadAll(): Promise<void> {
+  private createWorkspaceFiles(directory: string, nested = false): MemoryFile[] {
+    return [
+      this.createFile(MemoryFileType.WORKSPACE, directory, nested),
+      this.createFile(MemoryFileType.WORKSPACE_LOCAL, directory, nested),
+    ]
+  }
+
+  /**
+   * Create unloaded entries for the rule files in a directory's rules folder
+   */
+  private async createRuleFiles(directory: string): Promise<MemoryFile[]> {
+    const rulesDir = join(directory, RULES_DIR)
+    if (!(await exists(rulesDir, { isDirectory: true }))) return []
+
+    const files: MemoryFile[] = []
     try {
-      for (const [type, file] of this.memoryFiles.entries()) {
-        try {
-          const fileExists = await exists(file.path)
-
-          if (fileExists) {
-            const content = await Deno.readTextFile(file.path)
-            this.memoryFiles.set(type, {
-              ...file,
-              content,
-              exists: true,
-            })
-            logger.debug(`Loaded memory file: ${file.path}`)
-          } else {
-            logger.debug(`Memory file not found: ${file.path}`)
+      for await (const entry of walk(rulesDir, { includeDirs: false, exts: ['.md'] })) {
+        files.push({ ...this.createFile(MemoryFileType.RULE, directory), path: entry.path })
+      }
+    } catch (error) {
+      logger.debug(`Error reading rules directory ${rulesDir}: ${error}`)
+    }
+    return files.sort((a, b) => a.path.localeCompare(b.path))
+  }
+
+  /**
+   * Create unloaded entries for the instruction files of other assistants that exist in a directory
+   */
+  private async createCompatibilityFiles(directory: string): Promise<MemoryFile[]> {
+    const files: MemoryFile[] = []
+    for (const { type, path } of COMPATIBILITY_FILES) {
+      const filePath = join(directory, path)
+      if (await exists(filePath, { isFile: true })) {
+        files.push({ ...this.createFile(type, directory), path: filePath })
+      }
+    }
+
+    const cursorRulesDir = join(directory, CURSOR_RULES_DIR)
+    if (await exists(cursorRulesDir, { isDirectory: true })) {
+      const cursorRules: MemoryFile[] = []
+      try {
+        for await (const entry of walk(cursorRulesDir, { includeDirs: false, exts: ['.mdc'] })) {
+          cursorRules.push({
+            ...this.createFile(MemoryFileType.CURSOR_RULE, directory),
+            path: entry.path,
+          })
+        }
+      } catch (error) {
+        logger.debug(`Error reading Cursor rules directory ${cursorRulesDir}: ${error}`)
+      }
+      files.push(...cursorRules.sort((a, b) => a.path.localeCompare(b.path)))
+    }
+
+    if (files.length > 0) {
+      logger.debug(
+        `Found instruction files of other assistants: ${files.map((file) => file.path).join(', ')}`,
+      )
+    }
+    return files
+  }
+
+  /**
+   * Store a memory file entry, keyed by its path
+   */
+  private setFile(file: MemoryFile): void {
+    this.memoryFiles.set(file.path, file)
+  }
+
+  /**
+   * Get the primary memory file of a type: the policy or user memory file, or the workspace file
+   * in the base directory. Writes go to these files, except for managed policy memory.
+   * @param type Type of memory file
+   * @returns The memory file entry, or undefined for unknown types
+   */
+  getMemoryFile(type: MemoryFileType): MemoryFile | undefined {
+    const primaryTypes = [
+      MemoryFileType.POLICY,
+      MemoryFileType.USER,
+      MemoryFileType.WORKSPACE,
+      MemoryFileType.WORKSPACE_LOCAL,
+    ]
+    if (!primaryTypes.includes(type)) return undefined
+    return [...this.memoryFiles.values()].find((file) =>
+      file.type === type &&
+      (type === MemoryFileType.POLICY || type === MemoryFileType.USER ||
+        file.directory === this.baseDir)
+    )
+  }
+
+  /**
+   * Get the memory file that writes for a type go to, logging why if there is none
+   */
+  private getWritableFile(type: MemoryFileType): MemoryFile | undefined {
+    const file = this.getMemoryFile(type)
+    if (!file) {
+      logger.error(`Unknown memory file type: ${type}`)
+      return undefined
+    }
+    if (file.managed) {
+      logger.error(
+        `${file.path} is managed policy memory and cannot be edited, contact your administrator to change it`,
+      )
+      return undefined
+    }
+    return file
+  }
+
+  /**
+   * Find the directories from the repository root down to the base directory, most general first.
+   * The walk stops at the first directory containing `.git` and never includes the home directory
+   * (unless it is the base directory itself).
+   */
+  private async findAncestorDirs(): Promise<string[]> {
+    const homeDir = resolve(getHomeDir())
+    const dirs: string[] = []
+    let currentDir = this.baseDir
+
+    while (true) {
+      dirs.unshift(currentDir)
+      if (await exists(join(currentDir, '.git'))) break
+
+      const parentDir = dirname(currentDir)
+      if (parentDir === currentDir || parentDir === homeDir) break
+      currentDir = parentDir
+    }
+
+    return dirs
+  }
+
+  /**
+   * Find memory files in subdirectories of the base directory, skipping hidden directories and
+   * those in DIRS_TO_SKIP
+   */
+  private async findNestedFiles(): Promise<MemoryFile[]> {
+    const found: MemoryFile[] = []
+
+    const findRecursive = async (currentDir: string, depth: number): Promise<void> => {
+      if (depth > MAX_NESTED_DEPTH) return
+
+      try {
+        for await (const entry of Deno.readDir(currentDir)) {
+          if (!entry.isDirectory) continue
+          if (
+            entry.name.startsWith('.') ||
+            DIRS_TO_SKIP.includes(entry.name as typeof DIRS_TO_SKIP[number])
+          ) {
+            continue
           }
-        } catch (error) {
-          logger.debug(`Error reading memory file ${file.path}: ${error}`)
+
+          const subDir = join(currentDir, entry.name)
+          for (const file of this.createWorkspaceFiles(subDir, true)) {
+            if (await exists(file.path, { isFile: true })) found.push({ ...file, exists: true })
+          }
+          await findRecursive(subDir, depth + 1)
+        }
+      } catch { /* Ignore errors reading directory, e.g. permission denied */ }
+    }
+
+    await findRecursive(this.baseDir, 1)
+    return found
+  }
+
+  /**
+   * Warn when memory file content contains potential secrets, once per file and content
+   */
+  private warnAboutSecrets(path: string, content: string, hash: string): void {
+    const key = `${path}:${hash}`
+    if (this.secretWarnings.has(key)) return
+
+    const findings = scanSecrets(content, path)
+    if (findings.length === 0) return
+    this.secretWarnings.add(key)
+    logger.warn(
+      `${path} contains ${findings.length} potential secret(s), which are redacted from the combined memory, run "memory scan" for details`,
+    )
+  }
+
+  /**
+   * Read a memory file (and its imports) from disk
+   * @returns The updated memory file entry
+   */
+  private async readFile(file: MemoryFile): Promise<MemoryFile> {
+    try {
+      const current = await readWithFingerprint(file.path)
+      if (!current) {
+        logger.debug(`Memory file not found: ${file.path}`)
+        return {
+          ...file,
+          content: '',
+          exists: false,
+          loaded: true,
+          imports: [],
+          fingerprint: undefined,
         }
       }
 
+      const { content, fingerprint } = current
+      logger.debug(`Loaded memory file: ${file.path}`)
+
+      this.warnAboutSecrets(file.path, content, fingerprint.hash)
+      return {
+        ...file,
+        content,
+        exists: true,
+        loaded: true,
+        imports: await resolveImports(content, file.path),
+        attributes: parseFrontMatter(content, file.path).attributes,
+        fingerprint,
+      }
+    } catch (error) {
+      logger.debug(`Error reading memory file ${file.path}: ${error}`)
+      return { ...file, loaded: true }
+    }
+  }
+
+  /**
+   * Load all memory files
+   *
+   * Discovers workspace memory files and rule files in the base directory and its ancestors, and
+   * registers the nested memory files found in its subdirectories without reading them.
+   */
+  async loadAll(): Promise<void> {
+    try {
+      const policyFile = this.getMemoryFile(MemoryFileType.POLICY)
+      const userFile = this.getMemoryFile(MemoryFileType.USER)
+      const ancestorFiles: MemoryFile[] = []
+      for (const dir of await this.findAncestorDirs()) {
+        ancestorFiles.push(
+          ...(this.compatibility ? await this.createCompatibilityFiles(dir) : []),
+          ...this.createWorkspaceFiles(dir),
+          ...await this.createRuleFiles(dir),
+        )
+      }
+      const nestedFiles = await this.findNestedFiles()
+
+      this.memoryFiles = new Map()
+      const primaryFiles = [policyFile, userFile].filter((file) => file !== undefined)
+      for (const file of [...primaryFiles, ...ancestorFiles, ...nestedFiles]) {
+        this.setFile(file.nested ? file : await this.readFile(file))
+      }
+
+      if (nestedFiles.length > 0) {
+        logger.debug(
+          `Found nested memory files: ${nestedFiles.map((file) => file.path).join(', ')}`,
+        )
+      }
+
       this.combinedMemory = this.combineMemoryContent()
+      if (this.watchEnabled || this.watcher) await this.watch()
     } catch (error) {
       logger.error(`Error loading memory files: ${error}`)
     }
   }
 
   /**
-   * Combine memory content from all files
-   * @returns Combined memory content
+   * Load the nested memory files that apply to the given paths, i.e. those located in a
+   * subdirectory of the workspace that contains one of the paths
+   * @param paths Files or directories being worked on (absolute, or relative to the base directory)
+   * @returns The nested memory files that were newly loaded
    */
-  private combineMemoryContent(): string {
-    let combined = ''
+  async loadNestedMemory(paths: string[]): Promise<MemoryFile[]> {
+    const touchedPaths = paths.map((path) => resolve(this.baseDir, path))
+    const applies = (file: MemoryFile) =>
+      touchedPaths.some((path) =>
+        path === file.directory || path.startsWith(`${file.directory}${SEPARATOR}`)
+      )
 
-    // Order: user global, workspace shared, workspace local
-    const userMemory = this.memoryFiles.get(MemoryFileType.USER)
-    const workspaceMemory = this.memoryFiles.get(MemoryFileType.WORKSPACE)
-    const workspaceLocalMemory = this.memoryFiles.get(MemoryFileType.WORKSPACE_LOCAL)
+    const pending = [...this.memoryFiles.values()].filter((file) =>
+      file.nested && !file.loaded && applies(file)
+    )
+    if (pending.length === 0) return []
 
-    if (userMemory?.exists && userMemory.content) {
-      combined += `# User Global Memory\n${userMemory.content}\n\n`
+    const loaded: MemoryFile[] = []
+    for (const file of pending) {
+      const loadedFile = await this.readFile(file)
+      this.setFile(loadedFile)
+      loaded.push(loadedFile)
     }
 
-    if (workspaceMemory?.exists && workspaceMemory.content) {
-      combined += `# Workspace Memory\n${workspaceMemory.content}\n\n`
+    this.combinedMemory = this.combineMemoryContent()
+    if (this.watcher) await this.watch()
+    return loaded
+  }
+
+  /**
+   * Get the loaded memory files affected by a change to a path: the file at that path and the
+   * files importing it
+   */
+  private getAffectedFiles(path: string): MemoryFile[] {
+    return [...this.memoryFiles.values()].filter((file) =>
+      file.loaded &&
+      (file.path === path || flattenImports(file.imports).some((entry) => entry.path === path))
+    )
+  }
+
+  /**
+   * Get the directories to watch: those containing a loaded memory file or an imported file
+   */
+  private async getWatchDirs(): Promise<string[]> {
+    const paths = [...this.memoryFiles.values()]
+      .filter((file) => file.loaded)
+      .flatMap((file) => [file.path, ...flattenImports(file.imports).map((entry) => entry.path)])
+
+    const dirs: string[] = []
+    for (const dir of new Set(paths.map((path) => dirname(path)))) {
+      if (await exists(dir, { isDirectory: true })) dirs.push(dir)
     }
+    return dirs.sort()
+  }
+
+  /**
+   * Start watching the loaded memory files, and the files they import, for changes made on disk.
+   *
+   * Events are debounced, then only the affected memory files are reloaded, the combined memory is
+   * rebuilt and a change event is emitted for each reloaded file. Writes made by this process are
+   * not reported. The watcher follows files loaded later on (by `loadAll` or `loadNestedMemory`),
+   * and is closed by `unwatch` or when the process shuts down.
+   */
+  async watch(): Promise<void> {
+    const dirs = await this.getWatchDirs()
+    if (this.watcher && dirs.join('\n') === this.watchedDirs.join('\n')) return
+
+    this.watcher?.close()
+    this.watcher = undefined
+    this.watchedDirs = dirs
+    if (dirs.length === 0) return
+
+    if (!this.hasShutdownHandler) {
+      gracefulShutdown.addShutdownHandler(() => this.unwatch())
+      this.hasShutdownHandler = true
+    }
+    this.reloadChanges ??= debounce(() => {
+      this.reloadChangedFiles().catch((error) =>
+        logger.error(`Error reloading memory files: ${error}`)
+      )
+    }, WATCH_DEBOUNCE)
+
+    const watcher = Deno.watchFs(dirs, { recursive: false })
+    this.watcher = watcher
+    logger.debug(`Watching memory files in: ${dirs.join(', ')}`)
+
+    this.consumeWatchEvents(watcher).catch((error) =>
+      logger.error(`Error watching memory files: ${error}`)
+    )
+  }
+
+  /**
+   * Queue the memory-related paths of file system events for a debounced reload
+   */
+  private async consumeWatchEvents(watcher: Deno.FsWatcher): Promise<void> {
+    for await (const event of watcher) {
+      const paths = event.paths.filter((path) => this.getAffectedFiles(path).length > 0)
+      if (paths.length === 0) continue
+
+      for (const path of paths) this.changedPaths.add(path)
+      this.reloadChanges?.()
+    }
+  }
+
+  /**
+   * Reload the memory files affected by the queued changes and notify listeners of those whose
+   * content actually changed
+   */
+  private async reloadChangedFiles(): Promise<void> {
+    const changedPaths = [...this.changedPaths]
+    this.changedPaths.clear()
+
+    const affected = new Map<string, string[]>()
+    for (const path of changedPaths) {
+      for (const file of this.getAffectedFiles(path)) {
+        affected.set(file.path, [...(affected.get(file.path) ?? []), path])
+      }
+    }
+
+    const events: MemoryChangeEvent[] = []
+    for (const [path, paths] of affected) {
+      const previous = this.memoryFiles.get(path)
+      if (!previous) continue
+
+      const file = await this.readFile(previous)
+      const importsChanged = paths.some((changedPath) => changedPath !== path)
+      if (!importsChanged && file.fingerprint?.hash === previous.fingerprint?.hash) continue
+
+      this.setFile(file)
+      logger.debug(`Reloaded memory file: ${path}`)
+      events.push({
+        kind: !previous.exists ? 'created' : file.exists ? 'modified' : 'removed',
+        file,
+        changedPaths: paths,
+      })
+    }
+    if (events.length === 0) return
+
+    this.combinedMemory = this.combineMemoryContent()
+    for (const event of events) {
+      for (const listener of this.changeListeners) {
+        try {
+          listener(event)
+        } catch (error) {
+          logger.error(`Error in memory change listener: ${error}`)
+        }
+      }
+    }
+
+    // Imports may have been added or removed, follow them
+    await this.watch()
+  }
+
+  /**
+   * Stop watching memory files. Changes already queued are dropped.
+   */
+  unwatch(): void {
+    this.reloadChanges?.clear()
+    this.changedPaths.clear()
+    this.watcher?.close()
+    this.watcher = undefined
+    this.watchedDirs = []
+  }
+
+  /**
+   * Subscribe to changes of watched memory files
+   * @param listener Called with an event for every memory file reloaded after a change on disk
+   * @returns A function that removes the listener
+   */
+  onChange(listener: MemoryChangeListener): () => void {
+    this.changeListeners.add(listener)
+    return () => this.changeListeners.delete(listener)
+  }
+
+  /**
+   * Get memory files ordered from most general to most specific: user memory first, then
+   * workspace memory from the repository root down to the deepest nested directory. Within a
+   * directory, other assistants' instruction files come first, then shared memory, personal memory
+   * and rules.
+   */
+  private getOrderedFiles(): MemoryFile[] {
+    const depth = (file: MemoryFile) =>
+      file.type === MemoryFileType.POLICY
+        ? -2
+        : file.type === MemoryFileType.USER
+        ? -1
+        : file.directory.split(SEPARATOR).length
+    const typeRank = (file: MemoryFile) =>
+      [
+        ...COMPATIBILITY_FILES.map(({ type }) => type),
+        MemoryFileType.CURSOR_RULE,
+        MemoryFileType.WORKSPACE,
+        MemoryFileType.WORKSPACE_LOCAL,
+        MemoryFileType.RULE,
+      ].indexOf(file.type)
+
+    return [...this.memoryFiles.values()].sort((a, b) =>
+      depth(a) - depth(b) || typeRank(a) - typeRank(b) || a.path.localeCompare(b.path)
+    )
+  }
+
+  /**
+   * Get the section title used for a memory file in the combined memory
+   */
+  private getFileLabel(file: MemoryFile): string {
+    if (file.type === MemoryFileType.POLICY) return 'Managed Policy Memory (read-only)'
+    if (file.type === MemoryFileType.USER) return 'User Global Memory'
+    if (file.type === MemoryFileType.RULE) return `Rule (${relative(this.baseDir, file.path)})`
+    if (file.type === MemoryFileType.CURSOR_RULE) {
+      return `Cursor Rule (${relative(this.baseDir, file.path)})`
+    }
+
+    const label = COMPATIBILITY_FILES.find(({ type }) => type === file.type)?.label ??
+      (file.type === MemoryFileType.WORKSPACE_LOCAL ? 'Workspace Local Memory' : 'Workspace Memory')
+    return file.directory === this.baseDir
+      ? label
+      : `${label} (${relative(this.baseDir, file.directory)})`
+  }
+
+  /**
+   * Get the conditional memory files and rules that apply to any of the given paths
+   * @param paths Files being worked on (absolute, or relative to the base directory)
+   * @returns Loaded conditional memory files whose `paths` globs match, most general first
+   */
+  getRulesForPaths(paths: string[]): MemoryFile[] {
+    const targetPaths = paths.map((path) => resolve(this.baseDir, path))
+    return this.getOrderedFiles().filter((file) =>
+      file.exists && isConditional(file) && matchesPaths(file, targetPaths)
+    )
+  }
+
+  /**
+   * Get the sections that make up the combined memory, ordered from most general to most specific
+   * @param paths Optional paths being worked on; conditional memory matching them is included
+   * @returns Sections for every loaded, applicable memory file that has content
+   */
+  getMemorySections(paths: string[] = []): MemorySection[] {
+    const matchingRules = new Set(this.getRulesForPaths(paths))
+    return this.getOrderedFiles()
+      .filter((file) => file.exists && file.content)
+      .filter((file) => !isConditional(file) || matchingRules.has(file))
+      .map((file) => ({
+        title: this.getFileLabel(file),
+        file,
+        // Secrets are redacted rather than the file left out, as a false positive would silently
+        // drop its memory
+        content: redactSecrets(
+          expandImports(parseFrontMatter(file.content, file.path).body, file.imports),
+        ).text,
+      }))
+      .filter(({ content }) => content.trim())
+  }
+
+  /**
+   * Fit the memory sections within the token budget.
+   *
+   * Sections are admitted from highest to lowest priority: by the position of their type in the
+   * priority order (unlisted types last), then most specific file first. A section that does not
+   * fit in the remaining budget is truncated, or elided when not even its title fits, and a marker
+   * is left in its place. Markers of elided sections are not limited by the budget, and sections
+   * smaller than their marker are kept whole.
+   * @param paths Optional paths being worked on; conditional memory matching them is included
+   * @returns Token usage and the text of every section, ordered from most general to most specific
+   */
+  private budgetSections(paths: string[] = []): (MemoryTokenUsage & { text: string })[] {
+    const sections = this.getMemorySections(paths).map(({ title, file, content }) => {
+      const text = `# ${title}\n${content}`
+      return { title, file, text, tokens: estimateTokens(text) }
+    })
+    const totalTokens = sections.reduce((total, { tokens }) => total + tokens, 0)
+    if (this.tokenBudget <= 0 || totalTokens <= this.tokenBudget) {
+      return sections.map((section) => ({
+        ...section,
+        includedTokens: section.tokens,
+        status: 'included',
+      }))
+    }
+
+    // Policy memory is never truncated in favor of memory users can edit
+    const rank = (type: MemoryFileType) => {
+      if (type === MemoryFileType.POLICY) return -1
+      const index = this.priority.indexOf(type)
+      return index === -1 ? this.priority.length : index
+    }
+    const byPriority = sections.map((section, order) => ({ section, order })).sort((a, b) =>
+      rank(a.section.file.type) - rank(b.section.file.type) || b.order - a.order
+    )
+
+    let remaining = this.tokenBudget
+    const budgeted = new Map<number, MemoryTokenUsage & { text: string }>()
+    for (const { section, order } of byPriority) {
+      let text = section.text
+      let status: MemoryTokenUsage['status'] = 'included'
+
+      if (section.tokens > remaining) {
+        const marker = (omitted: number) =>
+          `<!-- truncated: ${omitted} of ${section.tokens} tokens omitted (memory budget) -->`
+        const truncated = truncateToTokens(
+          section.text,
+          remaining - estimateTokens(marker(section.tokens)),
+        )
+
+        const elided =
+          `<!-- elided: ${section.file.path} (${section.tokens} tokens, memory budget) -->`
+
+        if (truncated.length > `# ${section.title}\n`.length) {
+          text = `${truncated}\n${marker(section.tokens - estimateTokens(truncated))}`
+          status = 'truncated'
+        } else if (estimateTokens(elided) < section.tokens) {
+          text = elided
+          status = 'elided'
+        }
+      }
+
+      const includedTokens = estimateTokens(text)
+      remaining = Math.max(0, remaining - includedTokens)
+      budgeted.set(order, { ...section, text, includedTokens, status })
+    }
+
+    return [...budgeted].sort(([a], [b]) => a - b).map(([, section]) => section)
+  }
+
+  /**
+   * Get how many tokens each memory file contributes to the combined memory, before and after
+   * fitting it within the token budget
+   * @param paths Optional paths being worked on; conditional memory matching them is included
+   * @returns Token usage of the combined memory and of each memory file in it
+   */
+  getTokenReport(paths: string[] = []): MemoryTokenReport {
+    const sections = this.budgetSections(paths).map(({ text: _text, ...usage }) => usage)
+    return {
+      budget: this.tokenBudget,
+      tokens: sections.reduce((total, { tokens }) => total + tokens, 0),
+      includedTokens: sections.reduce((total, { includedTokens }) => total + includedTokens, 0),
+      sections,
+    }
+  }
+
+  /**
+   * Combine memory content from all files, fitted within the token budget
+   * @param paths Optional paths being worked on; conditional memory matching them is included
+   * @returns Combined memory content
+   */
+  private combineMemoryContent(paths: string[] = []): string {
+    return this.budgetSections(paths)
+      .map(({ text }) => text)
+      .join('\n\n')
+      .trim()
+  }
+
+  /**
+   * Write a memory file and refresh the cached entry and combined memory.
+   *
+   * The write holds the file's advisory lock and goes through a temp file and rename. If the file
+   * changed on disk since it was loaded, `update` is applied to the changed content when `merge` is
+   * set; otherwise the write is refused.
+   *
+   * The new content is recorded in the memory history, preceded by the previous on-disk content if
+   * it was changed outside the memory manager.
+   * @param file Memory file to write
+   * @param update Computes the new content from the current on-disk content (undefined if missing)
+   * @param options.merge Whether changes made on disk since the file was loaded can be merged
+   * @param options.operation The change being made, recorded in the memory history
+   * @param options.restoredFrom The revision being restored, recorded in the memory history
+   * @returns The updated memory file entry
+   * @throws {Error} If the file changed on disk and merging is not allowed
+   */
+  private async writeFile(
+    file: MemoryFile,
+    update: (current: string | undefined) => string,
+    { merge = false, operation = 'write', restoredFrom }: {
+      merge?: boolean
+      operation?: string
+      restoredFrom?: number
+    } = {},
+  ): Promise<MemoryFile> {
+    if (file.managed) throw new Error(`${file.path} is managed policy memory and cannot be edited`)
+
+    // Create directory if it doesn't exist
+    await Deno.mkdir(dirname(file.path), { recursive: true })
+
+    const { content, fingerprint } = await withFileLock(file.path, async () => {
+      const current = await readWithFingerprint(file.path)
+      if (hasChanged(file.fingerprint, current?.fingerprint)) {
+        if (!merge) {
+          throw new Error(
+            `${file.path} was changed on disk since it was loaded, refusing to overwrite it`,
+          )
+        }
+        logger.warn(`${file.path} was changed on disk since it was loaded, merging changes`)
+      }
+
+      const content = update(current?.content)
+      if (current) await this.recordRevision(file.path, current.content, 'external')
+      await writeTextFileAtomic(file.path, content)
+      await this.recordRevision(file.path, content, operation, restoredFrom)
 
-    if (workspaceLocalMemory?.exists && workspaceLocalMemory.content) {
-      combined += `# Workspace Local Memory\n${workspaceLocalMemory.content}\n\n`
+      const info = await Deno.stat(file.path)
+      return {
+        content,
+        fingerprint: { mtime: info.mtime?.getTime() ?? null, hash: await hashContent(content) },
+      }
+    })
+
+    // Update our memory cache
+    const updatedFile = {
+      ...file,
+      content,
+      exists: true,
+      loaded: true,
+      imports: await resolveImports(content, file.path),
+      attributes: parseFrontMatter(content, file.path).attributes,
+      fingerprint,
     }
+    this.setFile(updatedFile)
+
+    // Rebuild combined memory
+    this.combinedMemory = this.combineMemoryContent()
+    return updatedFile
+  }
 
-    return combined.trim()
+  /**
+   * Record a revision in the memory history. Failures are logged, but never fail the write.
+   */
+  private async recordRevision(
+    path: string,
+    content: string,
+    operation: string,
+    restoredFrom?: number,
+  ): Promise<void> {
+    try {
+      const revision = await this.history.record(path, content, operation, restoredFrom)
+      if (revision) logger.debug(`Recorded revision ${revision.rev} of ${path} (${operation})`)
+    } catch (error) {
+      logger.warn(`Could not record memory history of ${path}: ${error}`)
+    }
   }
 
   /**
@@ -175,60 +1412,231 @@ class Memory {
    * @returns True if successfully added
    */
   async addMemory(content: string, type: MemoryFileType): Promise<boolean> {
-    const file = this.memoryFiles.get(type)
-    if (!file) {
-      logger.error(`Unknown memory file type: ${type}`)
-      return false
+    const file = this.getWritableFile(type)
+    if (!file) return false
+
+    const findings = scanSecrets(content, file.path)
+    if (findings.length > 0) {
+      const report = findings.map((finding) => `  ${formatFinding(finding)}`).join('\n')
+
+      if (this.secrets === 'redact') {
+        logger.warn(`Redacting potential secret(s) before adding memory:\n${report}`)
+        content = redactSecrets(content).text
+      } else if (
+        this.secrets === 'refuse' ||
+        !confirm(`Memory contains potential secret(s):\n${report}\nStore it anyway?`)
+      ) {
+        logger.error(`Refusing to add memory containing potential secret(s):\n${report}`)
+        return false
+      }
     }
 
     try {
-      // Create directory if it doesn't exist
-      const dirPath = file.path.substring(0, file.path.lastIndexOf('/'))
-      try {
-        await Deno.mkdir(dirPath, { recursive: true })
-      } catch {
-        // Directory may already exist, continue
-      }
+      // Append to the latest on-disk content if the file exists, otherwise create it
+      await this.writeFile(
+        file,
+        (current) =>
+          current !== undefined
+            ? `${current}\n- ${content}`
+            : `# ${toFileName(config.APP_NAME, { uppercase: true })} Memory File\n\n- ${content}`,
+        { merge: true, operation: 'add' },
+      )
 
-      // Append to file if it exists, otherwise create it
-      const newContent = file.exists
-        ? `${file.content}\n- ${content}`
-        : `# ${toFileName(config.APP_NAME, { uppercase: true })} Memory File\n\n- ${content}`
+      logger.info(`Added memory to ${file.path}`)
+      return true
+    } catch (error) {
+      logger.error(`Error adding memory to ${file.path}: ${error}`)
+      return false
+    }
+  }
 
-      await Deno.writeTextFile(file.path, newContent)
+  /**
+   * List the bullet entries of a memory file
+   * @param type Type of memory file to list
+   * @returns Entries in the order they appear in the file
+   */
+  listEntries(type: MemoryFileType): MemoryEntry[] {
+    const file = this.getMemoryFile(type)
+    if (!file?.exists) return []
 
-      // Update our memory cache
-      this.memoryFiles.set(type, {
-        ...file,
-        content: newContent,
-        exists: true,
-      })
+    return parseEntries(file.content).map(({ id, text, line }, index) => ({
+      id,
+      index: index + 1,
+      line,
+      text,
+      type,
+      path: file.path,
+    }))
+  }
 
-      // Rebuild combined memory
-      this.combinedMemory = this.combineMemoryContent()
+  /**
+   * Remove a single bullet entry from a memory file
+   * @param id Id of the entry (as reported by `listEntries`), or a unique prefix of it. An exact
+   * id is never ambiguous, even when it is the prefix of the id of a duplicate entry.
+   * @param type Type of memory file to remove the entry from
+   * @returns True if the entry was found and removed
+   */
+  async removeMemory(id: string, type: MemoryFileType): Promise<boolean> {
+    const file = this.getWritableFile(type)
+    if (!file) return false
 
-      logger.info(`Added memory to ${file.path}`)
+    const entries = this.listEntries(type)
+    const exactMatch = entries.find((entry) => entry.id === id)
+    const matches = exactMatch ? [exactMatch] : entries.filter((entry) => entry.id.startsWith(id))
+    if (matches.length !== 1) {
+      logger.error(
+        matches.length === 0
+          ? `No memory entry with id ${id} in ${file.path}`
+          : `Memory entry id ${id} is ambiguous in ${file.path}`,
+      )
+      return false
+    }
+
+    try {
+      const [entry] = matches
+
+      // Locate the entry again in the latest on-disk content, which may have changed since loading
+      await this.writeFile(file, (current = '') => {
+        const line = parseEntries(current).find(({ id }) => id === entry.id)?.line
+        if (line === undefined) {
+          throw new Error(`Memory entry ${entry.id} no longer exists in ${file.path}`)
+        }
+        return current.split('\n').filter((_, lineIndex) => lineIndex !== line - 1).join('\n')
+      }, { merge: true, operation: 'remove' })
+
+      logger.info(`Removed memory entry ${entry.id} from ${file.path}`)
       return true
     } catch (error) {
-      logger.error(`Error adding memory to ${file.path}: ${error}`)
+      logger.error(`Error removing memory from ${file.path}: ${error}`)
       return false
     }
   }
 
+  /**
+   * List the recorded revisions of a memory file
+   * @param type Type of memory file
+   * @returns Revisions, oldest first
+   */
+  async getHistory(type: MemoryFileType): Promise<MemoryRevision[]> {
+    const file = this.getMemoryFile(type)
+    return file ? await this.history.list(file.path) : []
+  }
+
+  /**
+   * Diff a revision of a memory file against its current content
+   * @param type Type of memory file
+   * @param rev Revision number
+   * @returns The changes from the revision to the current content in unified diff format, empty if
+   * there are none
+   * @throws {Error} If the revision does not exist
+   */
+  async diffRevision(type: MemoryFileType, rev: number): Promise<string> {
+    const file = this.getMemoryFile(type)
+    if (!file) throw new Error(`Unknown memory file type: ${type}`)
+
+    const revision = await this.history.read(file.path, rev)
+    const current = await readWithFingerprint(file.path)
+    return diffLines(revision, current?.content ?? '', {
+      fromLabel: `${file.path} (revision ${rev})`,
+      toLabel: `${file.path} (current)`,
+    })
+  }
+
+  /**
+   * Restore a previous revision of a memory file. The restored content is recorded as a new
+   * revision, so an undo can itself be undone.
+   *
+   * Without a revision, the revision before the current content is restored; repeated undos keep
+   * stepping back through the history.
+   * @param type Type of memory file
+   * @param rev Optional revision number to restore
+   * @returns The restored revision, or undefined if there was nothing to restore
+   */
+  async undo(type: MemoryFileType, rev?: number): Promise<number | undefined> {
+    const file = this.getWritableFile(type)
+    if (!file) return undefined
+
+    try {
+      // Start from the latest on-disk content, the undo replaces any changes made in the meantime
+      const latest = await this.readFile(file)
+      const revisions = await this.history.list(file.path)
+
+      let target = rev
+      if (target === undefined) {
+        const currentIndex = revisions.findLastIndex(({ hash }) =>
+          hash === latest.fingerprint?.hash
+        )
+        if (currentIndex === -1) {
+          target = revisions.at(-1)?.rev
+        } else {
+          const current = revisions[currentIndex]
+          const steppedFrom = current.restoredFrom ?? current.rev
+          target = revisions.filter(({ rev }) => rev < steppedFrom).at(-1)?.rev
+        }
+      }
+      if (target === undefined) {
+        logger.error(`No earlier revision of ${file.path} to restore`)
+        return undefined
+      }
+
+      const content = await this.history.read(file.path, target)
+      await this.writeFile(latest, () => content, { operation: 'undo', restoredFrom: target })
+
+      logger.info(`Restored revision ${target} of ${file.path}`)
+      return target
+    } catch (error) {
+      logger.error(`Error restoring memory file ${file.path}: ${error}`)
+      return undefined
+    }
+  }
+
   /**
    * Get memory content
+   * @param paths Optional paths being worked on. Without paths only unconditional memory is
+   * returned; with paths, conditional memory and rules matching them are included as well.
    * @returns Combined memory content from all sources
    */
-  getMemory(): string {
-    return this.combinedMemory
+  getMemory(paths?: string[]): string {
+    return paths?.length ? this.combineMemoryContent(paths) : this.combinedMemory
+  }
+
+  /**
+   * Scan memory files for secrets: every discovered memory file (nested ones included) and the
+   * files they import
+   * @returns Findings, each with the path of the file it was found in
+   */
+  async scanMemory(): Promise<SecretFinding[]> {
+    await this.loadNestedMemory([this.baseDir])
+
+    const scanned = new Map<string, string>()
+    for (const file of this.getOrderedFiles().filter((file) => file.exists)) {
+      scanned.set(file.path, file.content)
+      for (const entry of flattenImports(file.imports)) scanned.set(entry.path, entry.content)
+    }
+    return [...scanned].flatMap(([path, content]) => scanSecrets(content, path))
   }
 
   /**
-   * Get all memory files
-   * @returns Map of memory files
+   * Get the primary memory files, see getMemoryFile
+   * @returns Map of memory files keyed by type
    */
   getMemoryFiles(): Map<MemoryFileType, MemoryFile> {
-    return this.memoryFiles
+    const files = new Map<MemoryFileType, MemoryFile>()
+    for (const type of Object.values(MemoryFileType)) {
+      const file = this.getMemoryFile(type)
+      if (file) files.set(type, file)
+    }
+    return files
+  }
+
+  /**
+   * Get all memory files, including nested workspace memory, rules and the instruction files of
+   * other assistants
+   * @returns Map of memory files keyed by path and ordered from most general to most specific,
+   * each including the full graph of files it imports
+   */
+  getMemoryFilesByPath(): Map<string, MemoryFile> {
+    return new Map(this.getOrderedFiles().map((file) => [file.path, file]))
   }
 
   /**
@@ -237,37 +1645,30 @@ class Memory {
    * @returns Whether file was successfully opened
    */
   async openInEditor(type: MemoryFileType): Promise<boolean> {
-    const file = this.memoryFiles.get(type)
-    if (!file) {
-      logger.error(`Unknown memory file type: ${type}`)
-      return false
-    }
+    const file = this.getWritableFile(type)
+    if (!file) return false
 
     try {
       // Use $EDITOR or fall back to common editors
       const editor = Deno.env.get('EDITOR') || 'nano'
 
-      // Create file if it doesn't exist
-      if (!file.exists) {
-        const dirPath = file.path.substring(0, file.path.lastIndexOf('/'))
-        try {
-          await Deno.mkdir(dirPath, { recursive: true })
-        } catch {
-          // Directory may already exist, continue
-        }
-
-        await Deno.writeTextFile(file.path, `# ${toFileName(config.APP_NAME, { uppercase: true })} Memory File\n\n`)
-
-        this.memoryFiles.set(type, {
-          ...file,
-          content: `# ${toFileName(config.APP_NAME, { uppercase: true })} Memory File\n\n`,
-          exists: true,
-        })
-      }
+      // Edit a copy of the latest on-disk content, so the memory file is only replaced atomically
+      // once the editor exits, and only if nobody else changed it in the meantime
+      const original = await this.readFile(file)
+      const editPath = await Deno.makeTempFile({
+        prefix: `${basename(file.path, '.md')}-`,
+        suffix: '.md',
+      })
+      await Deno.writeTextFile(
+        editPath,
+        original.exists
+          ? original.content
+          : `# ${toFileName(config.APP_NAME, { uppercase: true })} Memory File\n\n`,
+      )
 
       // Open in editor
       const process = new Deno.Command(editor, {
-        args: [file.path],
+        args: [editPath],
         stdin: 'inherit',
         stdout: 'inherit',
         stderr: 'inherit',
@@ -276,21 +1677,20 @@ class Memory {
       const { code } = await process.output()
 
       if (code === 0) {
-        // Reload the file after editing
-        const content = await Deno.readTextFile(file.path)
-        this.memoryFiles.set(type, {
-          ...file,
-          content,
-          exists: true,
-        })
-
-        // Rebuild combined memory
-        this.combinedMemory = this.combineMemoryContent()
+        const content = await Deno.readTextFile(editPath)
+        try {
+          await this.writeFile(original, () => content, { operation: 'edit' })
+        } catch (error) {
+          logger.error(`Error saving memory file: ${error}. Your edits were kept in ${editPath}`)
+          return false
+        }
 
+        await Deno.remove(editPath).catch(() => {})
         logger.info(`Edited memory file: ${file.path}`)
         return true
       }
 
+      await Deno.remove(editPath).catch(() => {})
       logger.error(`Editor exited with non-zero code: ${code}`)
       return false
     } catch (error) {
@@ -299,13 +1699,106 @@ class Memory {
     }
   }
 
+  /**
+   * Copy the instruction files of other assistants found in the base directory into workspace
+   * memory, so they no longer have to be maintained side by side. Files that only apply to some
+   * paths (e.g. Cursor rules with `globs`) become rule files, everything else is appended to the
+   * workspace memory file. Files that were imported before are skipped.
+   * @returns The files that were imported
+   */
+  async importCompatibilityFiles(): Promise<MemoryFile[]> {
+    const workspaceFile = this.getMemoryFile(MemoryFileType.WORKSPACE)
+    if (!workspaceFile) return []
+
+    const imported: MemoryFile[] = []
+    const workspaceSections: { file: MemoryFile; sourcePath: string; body: string }[] = []
+
+    for (const source of await this.createCompatibilityFiles(this.baseDir)) {
+      const file = await this.readFile(source)
+      const sourcePath = relative(this.baseDir, file.path)
+      const { attributes, body } = parseFrontMatter(file.content, file.path)
+
+      try {
+        if (isConditional(file)) {
+          const ruleName = sourcePath.split(SEPARATOR).pop()?.replace(/\.mdc$/, '.md') ?? sourcePath
+          const rule = {
+            ...this.createFile(MemoryFileType.RULE, this.baseDir),
+            path: join(this.baseDir, RULES_DIR, ruleName),
+          }
+          if (await exists(rule.path)) {
+            logger.info(`Skipping ${sourcePath}: rule file already exists at ${rule.path}`)
+            continue
+          }
+
+          const frontMatter = [
+            '---',
+            ...(attributes.description
+              ? [`description: ${JSON.stringify(attributes.description)}`]
+              : []),
+            `paths: ${JSON.stringify(attributes.paths)}`,
+            '---',
+          ].join('\n')
+          await this.writeFile(
+            rule,
+            () => `${frontMatter}\n${toImportMarker(sourcePath)}\n${body.trim()}\n`,
+            { operation: 'import' },
+          )
+          logger.info(`Imported ${sourcePath} as rule file ${rule.path}`)
+          imported.push(file)
+        } else {
+          workspaceSections.push({ file, sourcePath, body })
+        }
+      } catch (error) {
+        logger.error(`Error importing ${file.path}: ${error}`)
+      }
+    }
+
+    if (workspaceSections.length === 0) return imported
+
+    try {
+      // Sections are appended to the latest on-disk content, skipping sources imported before
+      const appended: MemoryFile[] = []
+      await this.writeFile(workspaceFile, (current) => {
+        let content = current ??
+          `# ${toFileName(config.APP_NAME, { uppercase: true })} Memory File\n`
+
+        for (const { file, sourcePath, body } of workspaceSections) {
+          if (content.includes(toImportMarker(sourcePath))) {
+            logger.info(`Skipping ${sourcePath}: already imported into ${workspaceFile.path}`)
+            continue
+          }
+
+          content = [
+            content.trimEnd(),
+            '',
+            toImportMarker(sourcePath),
+            `## Imported from ${sourcePath}`,
+            '',
+            body.trim(),
+            '',
+          ].join('\n')
+          appended.push(file)
+        }
+        return content
+      }, { merge: true, operation: 'import' })
+
+      for (const file of appended) {
+        logger.info(`Imported ${relative(this.baseDir, file.path)} into ${workspaceFile.path}`)
+      }
+      imported.push(...appended)
+    } catch (error) {
+      logger.error(`Error importing into ${workspaceFile.path}: ${error}`)
+    }
+    return imported
+  }
+
   /**
    * Initialize a new ${config.APP_NAME.toUpperCase()}.md file for workspace
    * @param content Content to initialize the file with (if not provided, a default template is used)
    * @returns Whether file was successfully created
    */
   async initializeWorkspaceMemory(content?: string): Promise<boolean> {
-    const file = this.memoryFiles.get(MemoryFileType.WORKSPACE)
+    const file = this.getMemoryFile(MemoryFileType.WORKSPACE)
     if (!file) {
       return false
     }
@@ -340,16 +1833,8 @@ class Memory {
         '',
       ].join('\n')
 
-      await Deno.writeTextFile(file.path, defaultContent)
-
-      this.memoryFiles.set(MemoryFileType.WORKSPACE, {
-        ...file,
-        content: defaultContent,
-        exists: true,
-      })
-
-      // Rebuild combined memory
-      this.combinedMemory = this.combineMemoryContent()
+      // Refused if the file was created on disk since it was loaded
+      await this.writeFile(file, () => defaultContent, { operation: 'init' })
 
       logger.info(`Created workspace memory file: ${file.path}`)
       return true
@@ -0,0 +1,118 @@
+/**
+ * @module atomic-write
+ * @description Helpers for writing files safely when several processes (or an editor) may touch them
+ * at the same time: atomic temp-file-and-rename writes, and advisory lock files.
+ *
+ * Basic usage:
+ * ```ts
+ * await withFileLock(path, async () => {
+ *   const current = await Deno.readTextFile(path)
+ *   await writeTextFileAtomic(path, `${current}\n- new entry`)
+ * })
+ * ```
+ */
+import { delay } from '@std/async'
+import { basename, dirname, join } from '@std/path'
+
+type FileLockOptions = {
+  /** How long to wait for a lock held by another process before giving up (ms) */
+  timeout?: number
+  /** Age after which an existing lock file is considered abandoned and removed (ms) */
+  staleAfter?: number
+  /** Delay between attempts to acquire the lock (ms) */
+  retryInterval?: number
+}
+
+const DEFAULT_LOCK_OPTIONS: Required<FileLockOptions> = {
+  timeout: 10_000,
+  staleAfter: 30_000,
+  retryInterval: 50,
+}
+
+/**
+ * Gets the path of the lock file guarding a file
+ *
+ * @param path Path of the guarded file
+ * @returns Path of the lock file, next to the guarded file
+ */
+function getLockPath(path: string): string {
+  return `${path}.lock`
+}
+
+/**
+ * Writes a text file atomically by writing to a temporary file in the same directory and renaming
+ * it over the target, so readers never observe a partially written file.
+ * The permissions of an existing target file are preserved.
+ *
+ * @param path Path of the file to write
+ * @param content Content to write
+ */
+async function writeTextFileAtomic(path: string, content: string): Promise<void> {
+  const mode = await Deno.stat(path).then((info) => info.mode ?? undefined).catch(() => undefined)
+  const tempPath = join(
+    dirname(path),
+    `.${basename(path)}.${Deno.pid}.${crypto.randomUUID().slice(0, 8)}.tmp`,
+  )
+
+  try {
+    await Deno.writeTextFile(tempPath, content, mode === undefined ? {} : { mode })
+    await Deno.rename(tempPath, path)
+  } catch (error) {
+    await Deno.remove(tempPath).catch(() => {})
+    throw error
+  }
+}
+
+/**
+ * Runs a function while holding an advisory lock on a file.
+ *
+ * The lock is a `<path>.lock` file created exclusively, containing the owner's pid. Processes that
+ * cooperate by using this function never run their critical sections for the same file concurrently.
+ * Lock files older than `staleAfter` are assumed to be left over from a crashed process and removed.
+ *
+ * @param path Path of the file to lock
+ * @param fn Function to run while the lock is held
+ * @param options Optional lock timing options
+ * @returns The result of `fn`
+ * @throws {Error} If the lock could not be acquired within `timeout`
+ */
+async function withFileLock<T>(
+  path: string,
+  fn: () => Promise<T>,
+  options: FileLockOptions = {},
+): Promise<T> {
+  const { timeout, staleAfter, retryInterval } = { ...DEFAULT_LOCK_OPTIONS, ...options }
+  const lockPath = getLockPath(path)
+  const startedAt = Date.now()
+
+  while (true) {
+    try {
+      const lockFile = await Deno.open(lockPath, { write: true, createNew: true })
+      await lockFile.write(new TextEncoder().encode(`${Deno.pid}\n`))
+      lockFile.close()
+      break
+    } catch (error) {
+      if (!(error instanceof Deno.errors.AlreadyExists)) throw error
+
+      const lockInfo = await Deno.stat(lockPath).catch(() => null)
+      const lockAge = lockInfo?.mtime ? Date.now() - lockInfo.mtime.getTime() : 0
+      if (lockAge > staleAfter) {
+        await Deno.remove(lockPath).catch(() => {})
+        continue
+      }
+      if (Date.now() - startedAt > timeout) {
+        throw new Error(`Timed out waiting for lock on ${path} (held in ${lockPath})`)
+      }
+      await delay(retryInterval)
+    }
+  }
+
+  try {
+    return await fn()
+  } finally {
+    await Deno.remove(lockPath).catch(() => {})
+  }
+}
+
+export type { FileLockOptions }
+export { getLockPath, withFileLock, writeTextFileAtomic }
@@ -0,0 +1,206 @@
+/**
+ * @module command-help
+ * @description Renders the usage page of a command from its definition: usage lines, flags with
+ * their aliases, value types and defaults, subcommands and examples, wrapped to the terminal width.
+ *
+ * Basic usage:
+ * ```ts
+ * const path = router.getRoutePath(['memory', 'add'])
+ * logger.print(formatCommandHelp(path, 'New-Codebase'))
+ * ```
+ */
+import { bold, dim } from '@std/fmt/colors'
+import type { ParseOptions } from '@std/cli'
+import { type CommandDefinition, type CommandFlag, mergeParseOptions } from './command-router.ts'
+
+/**
+ * A flag as documented and completed: its metadata with the details from the parse options
+ */
+type FlagDescription = CommandFlag & {
+  name: string
+  /** Command line spellings, e.g. ['-s', '--scope'] */
+  names: string[]
+  type: NonNullable<CommandFlag['type']>
+  /** Whether the flag can be given several times */
+  repeatable: boolean
+}
+
+/**
+ * Width used when the output is not a terminal
+ */
+const DEFAULT_WIDTH = 80
+
+/**
+ * Widest label column before descriptions move to their own line
+ */
+const MAX_LABEL_WIDTH = 32
+
+/**
+ * Gets the width of the terminal, or DEFAULT_WIDTH when the output is not a terminal
+ */
+function getTerminalWidth(): number {
+  try {
+    return Deno.consoleSize().columns || DEFAULT_WIDTH
+  } catch {
+    return DEFAULT_WIDTH
+  }
+}
+
+/**
+ * Wraps text at word boundaries
+ *
+ * @param text The text to wrap
+ * @param width Maximum line length, including the indent
+ * @param indent Indent of every line
+ * @returns The wrapped lines
+ */
+function wrapText(text: string, width: number, indent = ''): string[] {
+  const lines: string[] = []
+  let line = ''
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    if (line && indent.length + line.length + 1 + word.length > width) {
+      lines.push(indent + line)
+      line = word
+    } else {
+      line = line ? `${line} ${word}` : word
+    }
+  }
+  if (line) lines.push(indent + line)
+  return lines
+}
+
+/**
+ * Formats labelled rows, wrapping the descriptions in a column after the widest label
+ */
+function formatRows(rows: [label: string, description: string][], width: number): string[] {
+  const labelWidth = Math.min(MAX_LABEL_WIDTH, Math.max(...rows.map(([label]) => label.length)))
+  const indent = ' '.repeat(2 + labelWidth + 2)
+  return rows.flatMap(([label, description]) => {
+    const lines = wrapText(description, width, indent)
+    if (label.length > labelWidth) return [`  ${bold(label)}`, ...lines]
+    const [first = '', ...rest] = lines
+    return [`  ${bold(label.padEnd(labelWidth))}  ${first.trimStart()}`, ...rest]
+  })
+}
+
+/**
+ * Gets the aliases of a flag, in either direction of the alias map
+ */
+function getAliases(name: string, alias: ParseOptions['alias'] = {}): string[] {
+  const list = (value: string | readonly string[] | undefined) =>
+    typeof value === 'string' ? [value] : value ?? []
+  return [
+    ...list(alias[name]),
+    ...Object.entries(alias).flatMap(([key, value]) => list(value).includes(name) ? [key] : []),
+  ]
+}
+
+/**
+ * Describes flags: those documented in the flag metadata, and those only declared in the parse
+ * options
+ *
+ * @param options The parse options declaring the flags and their aliases
+ * @param flags The flag metadata by name
+ * @returns The flags, with their command line spellings from the shortest alias to the name
+ */
+function describeFlags(
+  options: ParseOptions,
+  flags: Record<string, CommandFlag>,
+): FlagDescription[] {
+  const list = (value: string | readonly string[] | boolean | undefined) =>
+    typeof value === 'string' ? [value] : Array.isArray(value) ? value : []
+  const booleans = list(options.boolean)
+  const collect = list(options.collect)
+  const described: Record<string, CommandFlag> = { ...flags }
+  for (const name of [...list(options.string), ...booleans, ...collect]) {
+    described[name] ??= { description: '', type: booleans.includes(name) ? 'boolean' : 'string' }
+  }
+
+  return Object.entries(described).map(([name, flag]) => ({
+    ...flag,
+    name,
+    names: [...getAliases(name, options.alias), name]
+      .sort((a, b) => a.length - b.length)
+      .map((flagName) => flagName.length === 1 ? `-${flagName}` : `--${flagName}`),
+    type: flag.type ?? 'string',
+    default: flag.default ?? options.default?.[name] as CommandFlag['default'],
+    repeatable: collect.includes(name),
+  }))
+}
+
+/**
+ * Describes the flags of a command, including those of its parent commands
+ *
+ * @param path The command and its parent commands, from the top-level command down
+ */
+function describeCommandFlags(path: CommandDefinition[]): FlagDescription[] {
+  return describeFlags(
+    mergeParseOptions(...path.map((command) => command.options ?? {})),
+    Object.assign({}, ...path.map((command) => command.flags ?? {})),
+  )
+}
+
+/**
+ * Formats the flags of a command and its parent commands
+ */
+function formatFlags(path: CommandDefinition[], width: number): string[] {
+  const rows = describeCommandFlags(path).map((flag): [string, string] => {
+    const value = flag.type === 'boolean' ? '' : ` <${flag.valueName ?? flag.type}>`
+    const notes = [
+      flag.repeatable ? '(repeatable)' : '',
+      flag.required ? '(required)' : '',
+      flag.default !== undefined ? `(default: ${JSON.stringify(flag.default)})` : '',
+    ].filter(Boolean).join(' ')
+    return [`${flag.names.join(', ')}${value}`, `${flag.description} ${notes}`.trim()]
+  })
+  return rows.length > 0 ? ['', bold('Options:'), ...formatRows(rows, width)] : []
+}
+
+/**
+ * Formats the usage page of a command
+ *
+ * @param path The command and its parent commands, from the top-level command down
+ * @param programName Name the CLI is invoked with, prefixed to the usage lines and examples
+ * @param width Width to wrap at, the terminal width by default
+ * @returns The usage page
+ */
+function formatCommandHelp(
+  path: CommandDefinition[],
+  programName: string,
+  width = getTerminalWidth(),
+): string {
+  const command = path.at(-1) as CommandDefinition
+  const commandName = path.map(({ name }) => name).join(' ')
+  const hasFlags = path.some(({ options, flags }) => options || flags)
+  const usage = command.usage ?? [
+    `${commandName}${command.subcommands?.length ? ' [command]' : ''}${
+      hasFlags ? ' [options]' : ''
+    }`,
+  ]
+
+  const lines = [
+    bold('Usage:'),
+    ...usage.map((line) => `  ${dim(programName)} ${line}`),
+    '',
+    ...wrapText(command.description, width),
+    ...formatFlags(path, width),
+  ]
+  if (command.subcommands?.length) {
+    lines.push(
+      '',
+      bold('Commands:'),
+      ...formatRows(command.subcommands.map(({ name, description }) => [name, description]), width),
+    )
+  }
+  if (command.examples?.length) {
+    lines.push(
+      '',
+      bold('Examples:'),
+      ...command.examples.map((example) => `  ${dim(programName)} ${example}`),
+    )
+  }
+  return lines.join('\n')
+}
+
+export { describeCommandFlags, describeFlags, formatCommandHelp, getTerminalWidth, wrapText }
+export type { FlagDescription }
@@ -0,0 +1,129 @@
+/**
+ * @module command-policy
+ * @description Decides which commands may run, from allow and deny lists of command patterns.
+ *
+ * Patterns match command paths, the command names separated by spaces (`memory add`):
+ * - `*` matches any part of one command name, `?` a single character, `**` any number of names
+ * - a pattern matching a command also matches its subcommands: `memory` covers `memory add`,
+ *   while `memory *` covers the subcommands of `memory` only
+ *
+ * A command is permitted when the allow list is empty or one of its patterns matches, and none of
+ * the deny list's patterns match, so deny wins over allow.
+ *
+ * Basic usage:
+ * ```ts
+ * const policy = new CommandPolicy({ allow: ['help', 'memory *'], deny: ['memory edit'] })
+ * policy.isPermitted(['memory', 'show']) // true
+ * policy.assertPermitted(['memory', 'edit']) // throws CommandDisabledError
+ * ```
+ */
+import type { CommandDefinition } from './command-router.ts'
+import { EXIT_CODES } from './exit-codes.ts'
+
+/**
+ * Allow and deny lists of command patterns
+ */
+type CommandPolicyRules = {
+  /** Patterns of the permitted commands, all commands when empty */
+  allow: string[]
+  /** Patterns of the disabled commands */
+  deny: string[]
+}
+
+/**
+ * Error thrown when a command disabled by the policy is invoked
+ */
+class CommandDisabledError extends Error {
+  /** Exit code of the process, see gracefulShutdown.panic */
+  readonly exitCode = EXIT_CODES.DISABLED.code
+  /** Names of the disabled command and its parent commands */
+  readonly path: string[]
+
+  constructor(path: string[]) {
+    super(`The "${path.join(' ')}" command is disabled`)
+    this.name = 'CommandDisabledError'
+    this.path = path
+  }
+}
+
+/**
+ * Converts a command pattern to a regular expression matching command paths
+ */
+function toPatternRegExp(pattern: string): RegExp {
+  const source = pattern.trim().split(/\s+/).join(' ').replace(
+    /\*\*|[*?]|[.+^${}()|[\]\\]/g,
+    (token) =>
+      token === '**' ? '.*' : token === '*' ? '[^ ]*' : token === '?' ? '[^ ]' : `\\${token}`,
+  )
+  return new RegExp(`^${source}$`)
+}
+
+/**
+ * Checks whether a command pattern matches a command or one of its parent commands
+ *
+ * @param pattern The command pattern, e.g. `memory *`
+ * @param path Names of the command and its parent commands, e.g. ['memory', 'add']
+ */
+function matchesCommandPattern(pattern: string, path: string[]): boolean {
+  const regExp = toPatternRegExp(pattern)
+  return path.some((_, index) => regExp.test(path.slice(0, index + 1).join(' ')))
+}
+
+/**
+ * Permits or denies commands by their path
+ */
+class CommandPolicy {
+  private rules: CommandPolicyRules
+
+  /**
+   * Creates a command policy, permitting every command by default
+   *
+   * @param rules The allow and deny lists
+   */
+  constructor(rules: Partial<CommandPolicyRules> = {}) {
+    this.rules = { allow: rules.allow ?? [], deny: rules.deny ?? [] }
+  }
+
+  /**
+   * Checks whether a command may run
+   *
+   * @param path Names of the command and its parent commands
+   */
+  isPermitted(path: string[]): boolean {
+    const { allow, deny } = this.rules
+    if (deny.some((pattern) => matchesCommandPattern(pattern, path))) return false
+    return allow.length === 0 || allow.some((pattern) => matchesCommandPattern(pattern, path))
+  }
+
+  /**
+   * Ensures a command may run
+   *
+   * @param path Names of the command and its parent commands
+   * @throws {CommandDisabledError} if the command is not permitted
+   */
+  assertPermitted(path: string[]): void {
+    if (!this.isPermitted(path)) throw new CommandDisabledError(path)
+  }
+
+  /**
+   * Removes the commands that may not run from a list of routes, keeping a command that is not
+   * permitted itself when some of its subcommands are
+   *
+   * @param routes The command routes
+   * @param parentPath Names of the parent commands of the routes
+   * @returns The permitted routes, with their subcommands filtered too
+   */
+  filter(routes: CommandDefinition[], parentPath: string[] = []): CommandDefinition[] {
+    return routes.flatMap((route) => {
+      const path = [...parentPath, route.name]
+      if (!route.subcommands) return this.isPermitted(path) ? [route] : []
+
+      const subcommands = this.filter(route.subcommands, path)
+      if (!this.isPermitted(path) && subcommands.length === 0) return []
+      return [{ ...route, subcommands }]
+    })
+  }
+}
+
+export { CommandDisabledError, CommandPolicy, matchesCommandPattern }
+export type { CommandPolicyRules }
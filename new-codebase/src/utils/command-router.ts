@@ -1,11 +1,53 @@
 /**
  * @module command-router
  * @description CLI Command Router for handling command routing and execution.
+ *
+ * Commands can declare `subcommands`, themselves command definitions, to any depth: the route for
+ * `memory add note` is the `add` subcommand of `memory`, called with the remaining positional
+ * arguments (`note`). Options of a command apply to all of its subcommands.
+ *
+ * A CommandPolicy decides which commands may run: invoking a disabled command throws a
+ * CommandDisabledError, and getRoutes lists the permitted commands only. The help command is always
+ * permitted, whatever the policy, so that the default command and `<command> --help` keep working;
+ * it only lists the permitted commands, and `help <command>` of a disabled command throws too.
+ *
+ * The `flags`, `usage` and `examples` of a command document it for `help <command>`, which
+ * `<command> --help` is routed to. The router also validates the flags against their metadata
+ * (required flags and value types) before running a command, throwing a CommandUsageError.
+ *
+ * In strict mode the router also rejects what it would otherwise ignore: an unknown command (instead
+ * of falling back to the default command) or subcommand, unknown flags, and string flags given
+ * without a value, suggesting the closest names. Usage errors exit with EXIT_CODES.USAGE.
  * @see {@link https://jsr.io/@std/cli/doc/~/parseArgs}
  * @see {@link https://jsr.io/@std/cli/doc/parse-args/~/Args}
  * @see {@link https://jsr.io/@std/cli/doc/~/ParseOptions}
  */
 import { type Args, parseArgs, type ParseOptions } from '@std/cli'
+import { CommandDisabledError, CommandPolicy } from './command-policy.ts'
+import { EXIT_CODES } from './exit-codes.ts'
+import { suggest } from './suggest.ts'
+
+/**
+ * Name of the command that `<command> --help` is routed to
+ */
+const HELP_COMMAND = 'help'
+
+/**
+ * Documentation and validation of a flag, the aliases come from the parse options
+ */
+type CommandFlag = {
+  description: string
+  /** Type of the value, validated before the command runs (string by default) */
+  type?: 'string' | 'number' | 'boolean'
+  /** Name of the value shown in the help, e.g. `<scope>` */
+  valueName?: string
+  /** Value used when the flag is absent, shown in the help */
+  default?: string | number | boolean
+  /** Whether the command fails without this flag */
+  required?: boolean
+  /** Values offered by shell completions, or a function listing them when completing */
+  values?: readonly string[] | (() => string[] | Promise<string[]>)
+}
 
 /**
  * Definition of a CLI command route
@@ -15,71 +57,285 @@ type CommandDefinition = {
   command: (params: CommandContext) => Promise<void> | void
   description: string
   options?: ParseOptions
+  /** Flags by name (without dashes), also applying to the subcommands */
+  flags?: Record<string, CommandFlag>
+  /** Usage lines without the program name, e.g. `memory add <text> [--scope <scope>]` */
+  usage?: string[]
+  /** Example invocations without the program name */
+  examples?: string[]
+  /** Nested commands, routed to by the positional argument following this command's name */
+  subcommands?: CommandDefinition[]
 }
 
 /**
  * Arguments passed to a command's execution function
  */
 type CommandContext = {
-  /** CLI arguments parsed by std/cli */
+  /** CLI arguments parsed by std/cli, with the positional arguments following the command's name */
   args: Args
-  /** Complete list of available command routes */
+  /** Names of the matched command and its parent commands, e.g. ['memory', 'add'] */
+  path: string[]
+  /** Complete list of permitted command routes */
   routes: CommandDefinition[]
   /** Any additional context the application needs to pass to commands */
   [key: string]: unknown
 }
 
+/**
+ * Options of a command router
+ */
+type CommandRouterOptions = {
+  /** The policy deciding which commands may run, all commands by default */
+  policy?: CommandPolicy
+  /** Whether unknown commands and flags, and string flags without a value, are errors */
+  strict?: boolean
+  /** Parse options of the flags every command accepts, e.g. those of the config */
+  globalOptions?: ParseOptions
+}
+
+/**
+ * Error thrown when a command is invoked with invalid flags or arguments
+ */
+class CommandUsageError extends Error {
+  /** Exit code of the process, see gracefulShutdown.panic */
+  readonly exitCode = EXIT_CODES.USAGE.code
+
+  /**
+   * @param message What is wrong
+   * @param path Names of the command and its parent commands, to point to its help, or no names
+   * (or the help command) to point to the list of commands
+   */
+  constructor(message: string, path: string[]) {
+    const help = [HELP_COMMAND, ...(path[0] === HELP_COMMAND ? [] : path)].join(' ')
+    super(`${message}${/[.?!]$/.test(message) ? '' : '.'} Run "${help}" for usage`)
+    this.name = 'CommandUsageError'
+  }
+}
+
 /**
  * Handles CLI command routing and option parsing
  */
 class CommandRouter {
   private routes: CommandDefinition[]
   private defaultCommand: string
+  private policy: CommandPolicy
+  private strict: boolean
+  private globalOptions: ParseOptions
 
   /**
    * Creates a new CLI command router instance
    *
    * @param commands Object mapping command names to command definitions
    * @param defaultCommand The default command to use when no command is specified
+   * @param options The command policy, strict mode and global flags
    */
-  constructor(commands: Record<string, CommandDefinition>, defaultCommand = 'help') {
+  constructor(
+    commands: Record<string, CommandDefinition>,
+    defaultCommand = 'help',
+    options: CommandRouterOptions = {},
+  ) {
     this.routes = Object.values(commands)
     this.defaultCommand = defaultCommand
+    this.policy = options.policy ?? new CommandPolicy()
+    this.strict = options.strict ?? false
+    this.globalOptions = options.globalOptions ?? {}
   }
 
   /**
-   * Executes a command for the given parsed Deno.args
+   * Executes a command for the given parsed Deno.args, or shows its help for `--help`
+   *
+   * @throws {CommandDisabledError} if the policy does not permit the command
+   * @throws {CommandUsageError} if the command line is not valid for the command
    */
   async route(args: string[], appContext: Record<string, unknown>): Promise<void> {
-    const route: CommandDefinition = this.getRoute(args)
-    const routeOptions: CommandContext = this.getOptions(route, appContext)
+    const routePath = this.getRoutePath(args)
+    const names = routePath.map((command) => command.name)
+    if (this.strict) this.checkCommand(args, routePath)
+    if (names[0] !== HELP_COMMAND) this.policy.assertPermitted(names)
+
+    const help = this.routes.find((r) => r.name === HELP_COMMAND)
+    const helpIndex = args.indexOf('--help')
+    if (help && helpIndex >= 0 && (args.indexOf('--') < 0 || helpIndex < args.indexOf('--'))) {
+      // Route `<command> --help` to `help <command>`
+      const helpArgs = names[0] === HELP_COMMAND ? [] : names
+      return await help.command({
+        args: parseArgs(helpArgs),
+        path: [HELP_COMMAND],
+        routes: this.getRoutes(),
+        ...appContext,
+      })
+    }
+
+    const route = routePath.at(-1) as CommandDefinition
+    const routeOptions: CommandContext = this.getOptions(route, appContext, args)
+    if (route.name === HELP_COMMAND) this.assertHelpPermitted(routeOptions.args._.map(String))
+    if (this.strict) this.checkFlags(args, routePath)
+    validateFlags(routePath, routeOptions.args)
     return await route.command(routeOptions)
   }
 
   /**
-   * Gets all available command routes
+   * Rejects an unknown command, or an unknown subcommand of the matched command
+   *
+   * @param args Command line arguments
+   * @param routePath The matched command and its parent commands
+   * @throws {CommandUsageError} naming the closest permitted command
+   */
+  private checkCommand(args: string[], routePath: CommandDefinition[]): void {
+    const [first] = parseArgs(args, this.globalOptions)._.map(String)
+    if (first !== undefined && !this.routes.some((r) => r.name === first)) {
+      throw new CommandUsageError(
+        withSuggestion(`Unknown command "${first}"`, first, this.getRoutes()),
+        [],
+      )
+    }
+
+    const route = routePath.at(-1) as CommandDefinition
+    const names = routePath.map((command) => command.name)
+    const [next] = this.getOptions(route, {}, args).args._.map(String)
+    if (route.subcommands && next !== undefined) {
+      throw new CommandUsageError(
+        withSuggestion(
+          `Unknown ${names.join(' ')} subcommand "${next}"`,
+          next,
+          this.policy.filter(route.subcommands, names),
+        ),
+        names,
+      )
+    }
+  }
+
+  /**
+   * Ensures the command documented by `help <command>` may run, like `<command> --help` does.
+   * Unknown commands are left to the help command to report.
+   *
+   * @param topic Names of the command and its subcommands given to the help command
+   * @throws {CommandDisabledError} if the policy permits neither the command nor its subcommands
+   */
+  private assertHelpPermitted(topic: string[]): void {
+    const path: string[] = []
+    let candidates = this.routes
+    for (const name of topic) {
+      const route = candidates.find((r) => r.name === name)
+      if (!route || (path.length === 0 && name === HELP_COMMAND)) return
+      path.push(name)
+      // Listed in the help when some of its subcommands are permitted, see CommandPolicy.filter
+      if (this.policy.filter([route], path.slice(0, -1)).length === 0) {
+        throw new CommandDisabledError(path)
+      }
+      candidates = route.subcommands ?? []
+    }
+  }
+
+  /**
+   * Rejects flags that neither the command, its parent commands nor the global options declare,
+   * and string flags given without a value
+   *
+   * @param args Command line arguments, including the flags before the command name
+   * @param routePath The matched command and its parent commands
+   * @throws {CommandUsageError} naming the closest known flag
+   */
+  private checkFlags(args: string[], routePath: CommandDefinition[]): void {
+    const names = routePath.map((command) => command.name)
+    const options = mergeParseOptions(
+      this.globalOptions,
+      ...routePath.map((command) => command.options ?? {}),
+    )
+    const parsed = parseArgs(args, options)
+    const list = (value: string | readonly string[] | boolean | undefined) =>
+      typeof value === 'string' ? [value] : Array.isArray(value) ? value : []
+    const known = new Set([
+      HELP_COMMAND,
+      ...list(options.string),
+      ...list(options.boolean),
+      ...list(options.collect),
+      ...Object.entries(options.alias ?? {}).flatMap(([alias, name]) => [alias, ...list(name)]),
+      ...routePath.flatMap((command) => Object.keys(command.flags ?? {})),
+    ])
+    const toFlag = (name: string) => name.length === 1 ? `-${name}` : `--${name}`
+
+    for (const name of Object.keys(parsed)) {
+      if (name === '_' || name === '--' || known.has(name)) continue
+      const suggestion = suggest(name, [...known].filter((flag) => flag.length > 1))
+      throw new CommandUsageError(
+        `Unknown flag ${toFlag(name)}${suggestion ? `. Did you mean --${suggestion}?` : ''}`,
+        names,
+      )
+    }
+
+    for (const name of [...list(options.string), ...list(options.collect)]) {
+      const values = Array.isArray(parsed[name]) ? parsed[name] : [parsed[name]]
+      if (values.includes('')) throw new CommandUsageError(`Flag --${name} requires a value`, names)
+    }
+  }
+
+  /**
+   * Gets the command routes permitted by the policy, and the help command
    */
   getRoutes(): CommandDefinition[] {
-    return this.routes
+    return this.routes.flatMap((route) =>
+      route.name === HELP_COMMAND ? [route] : this.policy.filter([route])
+    )
   }
 
   /**
    * Finds the appropriate command based on arguments
    *
    * @param args Command line arguments
-   * @returns The matching command definition or the default command
+   * @returns The deepest matching command definition or the default command
    */
   getRoute(args: string[]): CommandDefinition {
+    return this.getRoutePath(args).at(-1) as CommandDefinition
+  }
+
+  /**
+   * Finds the matching command and the parent commands it is nested in
+   *
+   * @param args Command line arguments
+   * @returns The matched commands from the top-level command down, or the default command
+   */
+  getRoutePath(args: string[]): CommandDefinition[] {
+    return this.matchRoutePath(args).path
+  }
+
+  /**
+   * Matches the command and its parent commands against the positional arguments
+   *
+   * @param args Command line arguments
+   * @returns The matched commands from the top-level command down, or the default command, and the
+   * index of the top-level command's name among the positional arguments, undefined for the
+   * default command
+   */
+  private matchRoutePath(args: string[]): { path: CommandDefinition[]; start?: number } {
     // The '_' property contains positional arguments (non-flag values) from the command line
     // We pass these to getRoute to find the appropriate command definition
-    const _args = parseArgs(args)._
+    const _args = parseArgs(args, this.globalOptions)._.map(String)
+
+    // The command name may also follow another positional argument, as it always could. In strict
+    // mode checkCommand rejects an unknown first positional argument, so only index 0 applies there.
+    const starts = this.strict ? [0] : [0, 1]
+    const start = starts.find((index) => this.routes.some((r) => r.name === _args[index]))
+    if (start === undefined) {
+      return {
+        path: [this.routes.find((r) => r.name === this.defaultCommand) as CommandDefinition],
+      }
+    }
 
-    if (_args.length > 0) {
-      const match = this.routes.find((r) => r.name === String(_args[0])) ??
-        (_args.length > 1 ? this.routes.find((r) => r.name === String(_args[1])) : undefined)
-      if (match) return match
+    // Descend through the subcommands as long as the following positional arguments match, parsing
+    // with the options of the commands matched so far so that their flag values are not mistaken
+    // for subcommand names
+    const path = [this.routes.find((r) => r.name === _args[start]) as CommandDefinition]
+    while (path.at(-1)?.subcommands) {
+      const options = mergeParseOptions(
+        this.globalOptions,
+        ...path.map((command) => command.options ?? {}),
+      )
+      const name = String(parseArgs(args, options)._[start + path.length])
+      const subcommand = path.at(-1)?.subcommands?.find((r) => r.name === name)
+      if (!subcommand) break
+      path.push(subcommand)
     }
-    return this.routes.find((r) => r.name === this.defaultCommand) as CommandDefinition
+    return { path, start }
   }
 
   /**
@@ -87,21 +343,116 @@ class CommandRouter {
    *
    * @param route The command definition
    * @param appContext Any additional context the application needs to pass to commands
+   * @param args Command line arguments, Deno.args by default
    * @returns Command options containing parsed arguments and routes
    */
-  getOptions(route: CommandDefinition, appContext: Record<string, unknown>): CommandContext {
-    const idx = Deno.args.findIndex((arg) => arg === route.name)
-    const args = idx >= 0
-      ? parseArgs(Deno.args.slice(idx + 1), route.options)
-      : parseArgs([], route.options)
+  getOptions(
+    route: CommandDefinition,
+    appContext: Record<string, unknown>,
+    args: string[] = Deno.args,
+  ): CommandContext {
+    const { path: routePath, start } = this.matchRoutePath(args)
+    const matched = start !== undefined && routePath.includes(route)
+    const path = matched ? routePath.slice(0, routePath.indexOf(route) + 1) : [route]
+
+    // Options of parent commands apply to their subcommands too, and global options to all commands
+    const options = mergeParseOptions(
+      this.globalOptions,
+      ...path.map((command) => command.options ?? {}),
+    )
+    const parsed = parseArgs(matched ? args : [], options)
+
+    // Leave the positional arguments following the matched command names, found by their position
+    // rather than their text, which may also be the value of a flag
+    if (matched) parsed._ = parsed._.slice(start + path.length)
 
     return {
-      args,
-      routes: this.routes,
+      args: parsed,
+      path: path.map((command) => command.name),
+      routes: this.getRoutes(),
       ...appContext,
     }
   }
 }
 
-export { CommandRouter }
-export type { CommandContext, CommandDefinition }
+/**
+ * Adds a "did you mean" suggestion of the closest command name to a message
+ */
+function withSuggestion(message: string, name: string, commands: CommandDefinition[]): string {
+  const suggestion = suggest(name, commands.map((command) => command.name))
+  return suggestion ? `${message}. Did you mean "${suggestion}"?` : message
+}
+
+/**
+ * Checks the flags of a command against their metadata, converting number values and applying
+ * the defaults of absent flags
+ *
+ * @param path The command and its parent commands
+ * @param args The parsed arguments of the command, updated in place
+ * @throws {CommandUsageError} if a required flag is missing or a value has the wrong type
+ */
+function validateFlags(path: CommandDefinition[], args: Args): void {
+  const names = path.map((command) => command.name)
+  const flags: Record<string, CommandFlag> = Object.assign(
+    {},
+    ...path.map((command) => command.flags ?? {}),
+  )
+
+  for (const [name, flag] of Object.entries(flags)) {
+    if (args[name] === undefined) {
+      if (flag.required) throw new CommandUsageError(`Missing required flag --${name}`, names)
+      if (flag.default !== undefined) args[name] = flag.default
+      continue
+    }
+
+    const type = flag.type ?? 'string'
+    const values: unknown[] = Array.isArray(args[name]) ? args[name] : [args[name]]
+    const converted = values.map((value) => {
+      if (type === 'boolean') {
+        if (typeof value !== 'boolean') {
+          throw new CommandUsageError(`Flag --${name} does not take a value`, names)
+        }
+        return value
+      }
+      if (typeof value === 'boolean' || value === '') {
+        throw new CommandUsageError(`Flag --${name} requires a ${type} value`, names)
+      }
+      if (type === 'number') {
+        const number = Number(value)
+        if (Number.isNaN(number)) {
+          throw new CommandUsageError(`Flag --${name} expects a number, got "${value}"`, names)
+        }
+        return number
+      }
+      return String(value)
+    })
+    args[name] = Array.isArray(args[name]) ? converted : converted[0]
+  }
+}
+
+/**
+ * Merges the parse options of a command and its parent commands, later options taking precedence
+ * for settings that cannot be combined
+ *
+ * @param options Parse options, from the top-level command down
+ * @returns The combined parse options
+ */
+function mergeParseOptions(...options: ParseOptions[]): ParseOptions {
+  const list = (value: string | readonly string[] | boolean | undefined) =>
+    typeof value === 'string' ? [value] : Array.isArray(value) ? value : []
+  const listOption = (name: 'string' | 'boolean' | 'collect' | 'negatable') =>
+    options.flatMap((option) => list(option[name]))
+
+  return Object.assign({}, ...options, {
+    string: listOption('string'),
+    // `boolean: true` treats every flag without a value as boolean, keep it if any command sets it
+    boolean: options.some((option) => option.boolean === true) ? true : listOption('boolean'),
+    collect: listOption('collect'),
+    negatable: listOption('negatable'),
+    alias: Object.assign({}, ...options.map((option) => option.alias ?? {})),
+    default: Object.assign({}, ...options.map((option) => option.default ?? {})),
+  })
+}
+
+export { CommandRouter, CommandUsageError, mergeParseOptions }
+export type { CommandContext, CommandDefinition, CommandFlag, CommandRouterOptions }
@@ -0,0 +1,402 @@
+/**
+ * @module completions
+ * @description Generates shell completion scripts (bash, zsh, fish and PowerShell) for the command
+ * routes, their subcommands and flags.
+ *
+ * The scripts complete command names, flags and their aliases, and the values of flags with
+ * `values`: a list of values is written into the script, while for a function the script asks the
+ * program at completion time, by running `<program> completions --complete <flag> [command...]`.
+ * Flags taking other values complete file names.
+ *
+ * The output only depends on the routes and flags given, in their order, so it can be compared
+ * with a snapshot.
+ *
+ * Basic usage:
+ * ```ts
+ * const script = generateCompletions('bash', {
+ *   programName: 'New-Codebase',
+ *   routes: router.getRoutes(),
+ *   globalFlags: describeFlags(createParseOptions(), {}),
+ * })
+ * ```
+ */
+import type { CommandDefinition } from './command-router.ts'
+import { describeCommandFlags, type FlagDescription } from './command-help.ts'
+
+/**
+ * Shells completion scripts can be generated for
+ */
+const COMPLETION_SHELLS = ['bash', 'zsh', 'fish', 'powershell'] as const
+
+type CompletionShell = (typeof COMPLETION_SHELLS)[number]
+
+/**
+ * What completion scripts are generated from
+ */
+type CompletionSpec = {
+  /** Name the program is invoked with, which the completions are registered for */
+  programName: string
+  /** The command routes */
+  routes: CommandDefinition[]
+  /** Flags accepted by every command */
+  globalFlags: FlagDescription[]
+}
+
+/**
+ * A command path with the words completed after it
+ */
+type CompletionNode = {
+  /** Names of the command and its parent commands separated by spaces, '' before any command */
+  path: string
+  /** Subcommands, by name and description */
+  commands: [name: string, description: string][]
+  /** Flags of the command, not including the global flags */
+  flags: FlagDescription[]
+}
+
+/**
+ * Lists the command paths, depth first in route order
+ */
+function getCompletionNodes(routes: CommandDefinition[]): CompletionNode[] {
+  const visit = (path: CommandDefinition[]): CompletionNode[] => {
+    const subcommands = path.at(-1)?.subcommands ?? []
+    return [
+      {
+        path: path.map(({ name }) => name).join(' '),
+        commands: subcommands.map(({ name, description }) => [name, description]),
+        flags: describeCommandFlags(path),
+      },
+      ...subcommands.flatMap((subcommand) => visit([...path, subcommand])),
+    ]
+  }
+  return [
+    { path: '', commands: routes.map(({ name, description }) => [name, description]), flags: [] },
+    ...routes.flatMap((route) => visit([route])),
+  ]
+}
+
+/**
+ * Checks whether a flag is followed by a value to complete
+ */
+const takesValue = (flag: FlagDescription) => flag.type !== 'boolean'
+
+/**
+ * Gets the values of a flag written into the script, undefined when the program lists them
+ */
+const getStaticValues = (flag: FlagDescription) =>
+  typeof flag.values === 'function' ? undefined : flag.values
+
+/**
+ * Quotes a word for POSIX shells (bash and zsh)
+ */
+const quoteShell = (text: string) => `'${text.replaceAll("'", `'\\''`)}'`
+
+/**
+ * Quotes a word for fish
+ */
+const quoteFish = (text: string) => `'${text.replaceAll('\\', '\\\\').replaceAll("'", "\\'")}'`
+
+/**
+ * Quotes a word for PowerShell
+ */
+const quotePowerShell = (text: string) => `'${text.replaceAll("'", "''")}'`
+
+/**
+ * Gets the name of the shell functions of a program, e.g. `new_codebase` for `New-Codebase`
+ */
+const getFunctionName = (programName: string) =>
+  programName.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '')
+
+/**
+ * Gets the first line of a description, as shown next to a completion
+ */
+const summarize = (description: string) => description.split('\n')[0].trim()
+
+function generateBash({ programName, routes, globalFlags }: CompletionSpec): string {
+  const nodes = getCompletionNodes(routes)
+  const paths = nodes.slice(1).map(({ path }) => quoteShell(path))
+  const flagWords = (flags: FlagDescription[]) => flags.flatMap(({ names }) => names)
+
+  const valueCase = (pattern: string, flag: FlagDescription) => {
+    const values = getStaticValues(flag)
+    const words = values
+      ? quoteShell(values.join(' '))
+      : flag.values
+      ? `"$(${quoteShell(programName)} completions --complete ${flag.name} $cmd_path 2>/dev/null)"`
+      : undefined
+    // Without values the default (file name) completion applies
+    return `    ${pattern})${
+      words ? ` COMPREPLY=($(compgen -W ${words} -- "$cur"));` : ''
+    } return ;;`
+  }
+
+  return [
+    `# bash completion for ${programName}, generated by "${programName} completions bash"`,
+    `_${getFunctionName(programName)}_complete() {`,
+    '  local cur="${COMP_WORDS[COMP_CWORD]}" prev="${COMP_WORDS[COMP_CWORD-1]}"',
+    "  local cmd_path='' word i",
+    '  for ((i = 1; i < COMP_CWORD; i++)); do',
+    '    word="${COMP_WORDS[i]}"',
+    '    case "${cmd_path:+$cmd_path }$word" in',
+    `      ${paths.join('|')}) cmd_path="\${cmd_path:+$cmd_path }$word" ;;`,
+    '    esac',
+    '  done',
+    '',
+    '  case "$cmd_path:$prev" in',
+    ...nodes.flatMap(({ path, flags }) =>
+      flags.filter(takesValue).map((flag) =>
+        valueCase(flag.names.map((name) => quoteShell(`${path}:${name}`)).join('|'), flag)
+      )
+    ),
+    ...globalFlags.filter(takesValue).map((flag) =>
+      valueCase(flag.names.map((name) => `*:${quoteShell(name)}`).join('|'), flag)
+    ),
+    '  esac',
+    '',
+    `  local words=${quoteShell(flagWords(globalFlags).join(' '))}`,
+    '  case "$cmd_path" in',
+    ...nodes.map(({ path, commands, flags }) =>
+      `    ${quoteShell(path)}) words+=${
+        quoteShell(` ${[...commands.map(([name]) => name), ...flagWords(flags)].join(' ')}`)
+      } ;;`
+    ),
+    '  esac',
+    '  COMPREPLY=($(compgen -W "$words" -- "$cur"))',
+    '}',
+    `complete -o default -F _${getFunctionName(programName)}_complete ${quoteShell(programName)}`,
+    '',
+  ].join('\n')
+}
+
+function generateZsh({ programName, routes, globalFlags }: CompletionSpec): string {
+  const functionName = `_${getFunctionName(programName)}`
+  const nodes = getCompletionNodes(routes)
+  const paths = nodes.slice(1).map(({ path }) => quoteShell(path))
+  const describe = (name: string, description: string) =>
+    quoteShell(`${name.replaceAll(':', '\\:')}:${summarize(description)}`)
+  const flagItems = (flags: FlagDescription[]) =>
+    flags.flatMap(({ names, description }) => names.map((name) => describe(name, description)))
+
+  const valueCase = (pattern: string, flag: FlagDescription) => {
+    const values = getStaticValues(flag)
+    const action = values
+      ? `compadd -- ${values.map(quoteShell).join(' ')}`
+      : flag.values
+      ? `compadd -- \${(f)"$(${
+        quoteShell(programName)
+      } completions --complete ${flag.name} \${=cmd_path} 2>/dev/null)"}`
+      : '_files'
+    return `    (${pattern}) ${action}; return ;;`
+  }
+
+  return [
+    `#compdef ${programName}`,
+    `# zsh completion for ${programName}, generated by "${programName} completions zsh"`,
+    `${functionName}() {`,
+    '  local cur="${words[CURRENT]}" prev="${words[CURRENT-1]}"',
+    "  local cmd_path='' word i",
+    '  for ((i = 2; i < CURRENT; i++)); do',
+    '    word="${words[i]}"',
+    '    case "${cmd_path:+$cmd_path }$word" in',
+    `      (${paths.join('|')}) cmd_path="\${cmd_path:+$cmd_path }$word" ;;`,
+    '    esac',
+    '  done',
+    '',
+    '  case "$cmd_path:$prev" in',
+    ...nodes.flatMap(({ path, flags }) =>
+      flags.filter(takesValue).map((flag) =>
+        valueCase(flag.names.map((name) => quoteShell(`${path}:${name}`)).join('|'), flag)
+      )
+    ),
+    ...globalFlags.filter(takesValue).map((flag) =>
+      valueCase(flag.names.map((name) => `*:${quoteShell(name)}`).join('|'), flag)
+    ),
+    '  esac',
+    '',
+    '  local -a candidates=(',
+    ...flagItems(globalFlags).map((item) => `    ${item}`),
+    '  )',
+    '  case "$cmd_path" in',
+    ...nodes.map(({ path, commands, flags }) =>
+      `    (${quoteShell(path)}) candidates+=(${
+        [...commands.map(([name, description]) => describe(name, description)), ...flagItems(flags)]
+          .join(' ')
+      }) ;;`
+    ),
+    '  esac',
+    "  _describe 'command or option' candidates",
+    '}',
+    '',
+    `if [ "$funcstack[1]" = ${quoteShell(functionName)} ]; then`,
+    `  ${functionName} "$@"`,
+    'else',
+    `  compdef ${functionName} ${quoteShell(programName)}`,
+    'fi',
+    '',
+  ].join('\n')
+}
+
+function generateFish({ programName, routes, globalFlags }: CompletionSpec): string {
+  const functionName = `__${getFunctionName(programName)}_using`
+  const nodes = getCompletionNodes(routes)
+  const program = quoteFish(programName)
+
+  const flagLine = (flag: FlagDescription, path?: string) => {
+    const condition = path === undefined
+      ? ''
+      : ` -n ${quoteFish(path ? `${functionName} ${quoteFish(path)}` : functionName)}`
+    const names = flag.names.map((name) =>
+      name.startsWith('--') ? `-l ${name.slice(2)}` : `-s ${name.slice(1)}`
+    ).join(' ')
+    const values = getStaticValues(flag)
+    const value = !takesValue(flag)
+      ? ''
+      : values
+      ? ` -x -a ${quoteFish(values.join(' '))}`
+      : flag.values
+      ? ` -x -a ${
+        quoteFish(
+          `(${
+            [program, 'completions', '--complete', flag.name, ...(path ? path.split(' ') : [])]
+              .join(' ')
+          })`,
+        )
+      }`
+      : ' -r -F'
+    return `complete -c ${program}${condition} ${names}${value} -d ${
+      quoteFish(summarize(flag.description))
+    }`
+  }
+
+  return [
+    `# fish completion for ${programName}, generated by "${programName} completions fish"`,
+    `function ${functionName}`,
+    '    set -l tokens (commandline -opc)',
+    "    set -l cmd_path ''",
+    '    set -e tokens[1]',
+    '    for token in $tokens',
+    '        set -l candidate (string trim -- "$cmd_path $token")',
+    '        switch $candidate',
+    `            case ${nodes.slice(1).map(({ path }) => quoteFish(path)).join(' ')}`,
+    '                set cmd_path $candidate',
+    '        end',
+    '    end',
+    '    test "$cmd_path" = "$argv"',
+    'end',
+    '',
+    `complete -c ${program} -f`,
+    ...globalFlags.map((flag) => flagLine(flag)),
+    ...nodes.flatMap(({ path, commands, flags }) => [
+      ...commands.map(([name, description]) =>
+        `complete -c ${program} -n ${
+          quoteFish(path ? `${functionName} ${quoteFish(path)}` : functionName)
+        } -a ${quoteFish(name)} -d ${quoteFish(summarize(description))}`
+      ),
+      ...flags.map((flag) => flagLine(flag, path)),
+    ]),
+    '',
+  ].join('\n')
+}
+
+function generatePowerShell({ programName, routes, globalFlags }: CompletionSpec): string {
+  const nodes = getCompletionNodes(routes)
+  const complete = (text: string, description: string) =>
+    `& $complete ${quotePowerShell(text)} ${quotePowerShell(summarize(description) || text)}`
+  const flagItems = (flags: FlagDescription[]) =>
+    flags.flatMap(({ names, description }) => names.map((name) => complete(name, description)))
+
+  const valueCase = (pattern: string, flag: FlagDescription) => {
+    const values = getStaticValues(flag)
+    const action = values
+      ? `${values.map(quotePowerShell).join(', ')} | ForEach-Object { & $complete $_ $_ }; `
+      : flag.values
+      ? `& ${
+        quotePowerShell(programName)
+      } completions --complete ${flag.name} $commandPath.Split(' ') 2>$null | ForEach-Object { & $complete $_ $_ }; `
+      : ''
+    // Returning nothing falls back to the file name completion
+    return `        ${quotePowerShell(pattern)} { ${action}return }`
+  }
+
+  return [
+    `# PowerShell completion for ${programName}, generated by "${programName} completions powershell"`,
+    `Register-ArgumentCompleter -Native -CommandName ${
+      quotePowerShell(programName)
+    } -ScriptBlock {`,
+    '    param($wordToComplete, $commandAst, $cursorPosition)',
+    '',
+    '    $complete = {',
+    '        param($text, $toolTip)',
+    '        if ($text -like "$wordToComplete*") {',
+    "            [System.Management.Automation.CompletionResult]::new($text, $text, 'ParameterValue', $toolTip)",
+    '        }',
+    '    }',
+    '',
+    "    $commandPath = ''",
+    "    $previous = ''",
+    '    $words = $commandAst.CommandElements | Select-Object -Skip 1 |',
+    '        Where-Object { $_.Extent.EndOffset -lt $cursorPosition }',
+    '    foreach ($word in $words) {',
+    '        $candidate = "$commandPath $word".Trim()',
+    `        if ($candidate -in @(${
+      nodes.slice(1).map(({ path }) => quotePowerShell(path)).join(', ')
+    })) { $commandPath = $candidate }`,
+    '        $previous = "$word"',
+    '    }',
+    '',
+    '    switch -Wildcard ("${commandPath}:$previous") {',
+    ...nodes.flatMap(({ path, flags }) =>
+      flags.filter(takesValue).flatMap((flag) =>
+        flag.names.map((name) => valueCase(`${path}:${name}`, flag))
+      )
+    ),
+    ...globalFlags.filter(takesValue).flatMap((flag) =>
+      flag.names.map((name) => valueCase(`*:${name}`, flag))
+    ),
+    '    }',
+    '',
+    '    switch ($commandPath) {',
+    ...nodes.flatMap(({ path, commands, flags }) => [
+      `        ${quotePowerShell(path)} {`,
+      ...[
+        ...commands.map(([name, description]) => complete(name, description)),
+        ...flagItems(flags),
+      ]
+        .map((line) => `            ${line}`),
+      '        }',
+    ]),
+    '    }',
+    ...flagItems(globalFlags).map((line) => `    ${line}`),
+    '}',
+    '',
+  ].join('\n')
+}
+
+/**
+ * Generates the completion script of a shell
+ *
+ * @param shell The shell
+ * @param spec The program name, routes and global flags to complete
+ * @returns The script, to be sourced by the shell
+ */
+function generateCompletions(shell: CompletionShell, spec: CompletionSpec): string {
+  switch (shell) {
+    case 'bash':
+      return generateBash(spec)
+    case 'zsh':
+      return generateZsh(spec)
+    case 'fish':
+      return generateFish(spec)
+    case 'powershell':
+      return generatePowerShell(spec)
+  }
+}
+
+/**
+ * Checks whether a name is a shell completion scripts can be generated for
+ */
+const isCompletionShell = (name: string): name is CompletionShell =>
+  (COMPLETION_SHELLS as readonly string[]).includes(name)
+
+export { COMPLETION_SHELLS, generateCompletions, isCompletionShell }
+export type { CompletionShell, CompletionSpec }
@@ -0,0 +1,22 @@
+/**
+ * @module exit-codes
+ * @description Exit codes of the CLI, so scripts can tell a mistyped command line from a failure.
+ *
+ * Errors carry their exit code in an `exitCode` property, which gracefulShutdown.panic exits with;
+ * other errors exit with FAILURE. The help command lists the codes.
+ */
+
+/**
+ * Exit codes by name, with what they mean
+ */
+const EXIT_CODES = {
+  SUCCESS: { code: 0, description: 'The command succeeded' },
+  FAILURE: { code: 1, description: 'The command failed while running' },
+  USAGE: {
+    code: 2,
+    description: 'Invalid command line: unknown command or flag, missing or invalid value',
+  },
+  DISABLED: { code: 126, description: 'The command is disabled (APP_DISABLED_COMMANDS)' },
+} as const
+
+export { EXIT_CODES }
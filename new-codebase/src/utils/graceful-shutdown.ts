@@ -11,6 +11,7 @@
  * - Done! Graceful shutdown will now respond to signals and perform the registered cleanup handlers.
  *
  * Note: (Optional): You can call panic(errorOrMessage) to trigger a custom shutdown and exit with a non-zero exit code.
+ * The exit code is 1, unless the error has a numeric `exitCode` property.
  */
 
 type ShutdownLogger = Record<
@@ -68,7 +69,7 @@ class GracefulShutdown {
       this.logger.debug(`Received ${signal} signal. Exiting gracefully...`)
       Deno.removeSignalListener(signal, signalHandler)
       this.signalHandlers.delete(signal)
-      this.shutdown(false)
+      this.shutdown(0)
     }
 
     try {
@@ -118,7 +119,7 @@ class GracefulShutdown {
     if (entrypoint) {
       try {
         await entrypoint()
-        this.shutdown(false)
+        this.shutdown(0)
       } catch (err) {
         this.panic(err instanceof Error ? err : String(err))
       }
@@ -128,7 +129,7 @@ class GracefulShutdown {
   /**
    * Execute a controlled shutdown sequence
    */
-  private async shutdown(isPanic = false): Promise<void> {
+  private async shutdown(exitCode = 0): Promise<void> {
     if (this.isShuttingDown) return
     this.isShuttingDown = true
 
@@ -151,7 +152,7 @@ class GracefulShutdown {
       this.cleanupHandlers.map((handler) => executeHandler(handler, 'shutdown')),
     )
 
-    Deno.exit(isPanic ? 1 : 0)
+    Deno.exit(exitCode)
   }
 
   /**
@@ -162,7 +163,11 @@ class GracefulShutdown {
       errorOrMessage instanceof Error ? errorOrMessage.message : errorOrMessage,
       ...args,
     )
-    this.shutdown(true)
+    const exitCode = errorOrMessage instanceof Error && 'exitCode' in errorOrMessage &&
+        typeof errorOrMessage.exitCode === 'number'
+      ? errorOrMessage.exitCode
+      : 1
+    this.shutdown(exitCode)
   }
 }
 
@@ -0,0 +1,164 @@
+/**
+ * @module jsonc-edit
+ * @description Edits top-level properties of a JSONC object in place, keeping the comments and
+ * formatting of the rest of the text.
+ *
+ * Basic usage:
+ * ```ts
+ * let text = await Deno.readTextFile('new-codebase.json')
+ * text = setJsoncProperty(text, 'APP_LOG_LEVEL', 'debug')
+ * text = removeJsoncProperty(text, 'APP_MEMORY_TOKEN_BUDGET')
+ * ```
+ * The text must be valid JSONC containing an object, parse it first to report syntax errors.
+ */
+
+/**
+ * Span of a top-level property in the text: from its key to the end of its value
+ */
+type PropertySpan = { start: number; end: number; valueStart: number }
+
+/**
+ * Skips whitespace and comments, returning the position of the next token
+ */
+function skipTrivia(text: string, position: number): number {
+  while (position < text.length) {
+    if (/\s/.test(text[position])) {
+      position++
+    } else if (text.startsWith('//', position)) {
+      const end = text.indexOf('\n', position)
+      position = end === -1 ? text.length : end
+    } else if (text.startsWith('/*', position)) {
+      const end = text.indexOf('*/', position + 2)
+      position = end === -1 ? text.length : end + 2
+    } else {
+      break
+    }
+  }
+  return position
+}
+
+/**
+ * Skips a string starting at a quote, returning the position after its closing quote
+ */
+function skipString(text: string, position: number): number {
+  for (let i = position + 1; i < text.length; i++) {
+    if (text[i] === '\\') i++
+    else if (text[i] === '"') return i + 1
+  }
+  return text.length
+}
+
+/**
+ * Skips a value (string, object, array or literal), returning the position after it
+ */
+function skipValue(text: string, position: number): number {
+  if (text[position] === '"') return skipString(text, position)
+  if (text[position] !== '{' && text[position] !== '[') {
+    const literal = text.slice(position).match(/^[^\s,\]}/]+/)
+    return position + (literal?.[0].length ?? 0)
+  }
+
+  let depth = 0
+  while (position < text.length) {
+    position = skipTrivia(text, position)
+    const char = text[position]
+    if (char === '"') {
+      position = skipString(text, position)
+      continue
+    }
+    if (char === '{' || char === '[') depth++
+    if (char === '}' || char === ']') depth--
+    position++
+    if (depth === 0) break
+  }
+  return position
+}
+
+/**
+ * Finds the top-level properties of the object in a JSONC text
+ *
+ * @returns The span of each property by key, and the position of the closing brace
+ */
+function scanObject(text: string): { properties: Map<string, PropertySpan>; close: number } {
+  const properties = new Map<string, PropertySpan>()
+  let position = skipTrivia(text, 0)
+  if (text[position] !== '{') throw new Error('Expected a JSONC object')
+  position++
+
+  while (position < text.length) {
+    position = skipTrivia(text, position)
+    if (text[position] === '}') return { properties, close: position }
+    if (text[position] === ',') {
+      position++
+      continue
+    }
+
+    const start = position
+    const keyEnd = skipString(text, position)
+    const key = JSON.parse(text.slice(start, keyEnd)) as string
+    const valueStart = skipTrivia(text, skipTrivia(text, keyEnd) + 1) // after the colon
+    position = skipValue(text, valueStart)
+    properties.set(key, { start, end: position, valueStart })
+  }
+  throw new Error('Expected a JSONC object')
+}
+
+/**
+ * Sets a top-level property of a JSONC object, replacing its value if it exists or appending it
+ *
+ * @param text JSONC text containing an object
+ * @param key Property name
+ * @param value New value, serialized as JSON
+ * @returns The edited text
+ */
+function setJsoncProperty(text: string, key: string, value: unknown): string {
+  const { properties, close } = scanObject(text)
+  const existing = properties.get(key)
+  if (existing) {
+    return `${text.slice(0, existing.valueStart)}${JSON.stringify(value)}${
+      text.slice(existing.end)
+    }`
+  }
+
+  // Append after the last property, indented like it
+  const last = [...properties.values()].at(-1)
+  const indent = last ? text.slice(text.lastIndexOf('\n', last.start) + 1, last.start) : '  '
+  const property = `${JSON.stringify(key)}: ${JSON.stringify(value)}`
+  if (!last) return `${text.slice(0, close).trimEnd()}\n${indent}${property}\n${text.slice(close)}`
+
+  const trailingComma = text.slice(last.end, close).match(/^\s*,/)
+  const insertAt = last.end + (trailingComma?.[0].length ?? 0)
+  return `${text.slice(0, insertAt)}${trailingComma ? '' : ','}\n${indent}${property}${
+    text.slice(insertAt)
+  }`
+}
+
+/**
+ * Removes a top-level property of a JSONC object, together with its separating comma
+ *
+ * @param text JSONC text containing an object
+ * @param key Property name
+ * @returns The edited text, unchanged if the property does not exist
+ */
+function removeJsoncProperty(text: string, key: string): string {
+  const { properties } = scanObject(text)
+  const property = properties.get(key)
+  if (!property) return text
+
+  // Remove the whole line when the property is alone on it
+  const lineStart = text.lastIndexOf('\n', property.start - 1) + 1
+  let start = text.slice(lineStart, property.start).trim() === '' ? lineStart : property.start
+  let end = property.end
+  const comma = text.slice(end).match(/^\s*,[ \t]*/)
+  if (comma) {
+    end += comma[0].length
+  } else {
+    // The last property: remove the comma before it instead
+    const previous = text.slice(0, start).match(/,\s*$/)
+    if (previous) start = text.slice(0, start).lastIndexOf(',')
+  }
+  if (start === lineStart && text[end] === '\n') end++
+  return `${text.slice(0, start)}${text.slice(end)}`
+}
+
+export { removeJsoncProperty, setJsoncProperty }
@@ -0,0 +1,105 @@
+/**
+ * @module line-diff
+ * @description Line based diffs of small text files in unified diff format.
+ *
+ * Basic usage:
+ * ```ts
+ * const diff = diffLines(before, after, { fromLabel: 'a/NOTES.md', toLabel: 'b/NOTES.md' })
+ * if (diff) console.log(diff)
+ * ```
+ */
+
+type DiffLine = { kind: ' ' | '-' | '+'; text: string }
+
+type DiffOptions = {
+  /** Number of unchanged lines shown around each change */
+  context?: number
+  /** Label of the original text in the diff header */
+  fromLabel?: string
+  /** Label of the changed text in the diff header */
+  toLabel?: string
+}
+
+/**
+ * Computes the edit script between two lists of lines from their longest common subsequence
+ */
+function computeEdits(before: string[], after: string[]): DiffLine[] {
+  // lengths[i][j] is the length of the longest common subsequence of before[i..] and after[j..]
+  const lengths = Array.from(
+    { length: before.length + 1 },
+    () => new Array<number>(after.length + 1).fill(0),
+  )
+  for (let i = before.length - 1; i >= 0; i--) {
+    for (let j = after.length - 1; j >= 0; j--) {
+      lengths[i][j] = before[i] === after[j]
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1])
+    }
+  }
+
+  const edits: DiffLine[] = []
+  let i = 0
+  let j = 0
+  while (i < before.length || j < after.length) {
+    if (i < before.length && j < after.length && before[i] === after[j]) {
+      edits.push({ kind: ' ', text: before[i++] })
+      j++
+    } else if (
+      j < after.length && (i === before.length || lengths[i][j + 1] >= lengths[i + 1][j])
+    ) {
+      edits.push({ kind: '+', text: after[j++] })
+    } else {
+      edits.push({ kind: '-', text: before[i++] })
+    }
+  }
+  return edits
+}
+
+/**
+ * Splits a text into lines, ignoring the line break at the end of the text
+ */
+function toLines(text: string): string[] {
+  return text === '' ? [] : text.replace(/\r?\n$/, '').split(/\r?\n/)
+}
+
+/**
+ * Diffs two texts line by line
+ *
+ * @param before The original text
+ * @param after The changed text
+ * @param options Optional context size and header labels
+ * @returns The diff in unified format, or an empty string if the texts have the same lines
+ */
+function diffLines(before: string, after: string, options: DiffOptions = {}): string {
+  const { context = 3, fromLabel = 'before', toLabel = 'after' } = options
+  const edits = computeEdits(toLines(before), toLines(after))
+  const changed = edits.flatMap((edit, index) => edit.kind === ' ' ? [] : [index])
+  if (changed.length === 0) return ''
+
+  // Group changes whose context overlaps into hunks of [start, end) edit indexes
+  const hunks: [number, number][] = []
+  for (const index of changed) {
+    const start = Math.max(0, index - context)
+    const end = Math.min(edits.length, index + context + 1)
+    const last = hunks.at(-1)
+    if (last && start <= last[1]) last[1] = end
+    else hunks.push([start, end])
+  }
+
+  const output = [`--- ${fromLabel}`, `+++ ${toLabel}`]
+  for (const [start, end] of hunks) {
+    const preceding = edits.slice(0, start)
+    const hunk = edits.slice(start, end)
+    const fromStart = preceding.filter(({ kind }) => kind !== '+').length + 1
+    const toStart = preceding.filter(({ kind }) => kind !== '-').length + 1
+    const fromCount = hunk.filter(({ kind }) => kind !== '+').length
+    const toCount = hunk.filter(({ kind }) => kind !== '-').length
+
+    output.push(`@@ -${fromStart},${fromCount} +${toStart},${toCount} @@`)
+    output.push(...hunk.map(({ kind, text }) => `${kind}${text}`))
+  }
+  return output.join('\n')
+}
+
+export type { DiffOptions }
+export { diffLines }
@@ -0,0 +1,193 @@
+/**
+ * @module secret-scanner
+ * @description Detects and redacts common secret formats (API keys, access tokens, private keys,
+ * `.env` style credential assignments and high-entropy strings) in text.
+ *
+ * Basic usage:
+ * - `scanSecrets(text, path)` to get findings with line, column and rule name
+ * - `redactSecrets(text)` to replace every detected secret with a `[REDACTED:<rule>]` marker
+ */
+
+/**
+ * A pattern for one kind of secret. When the pattern has a `secret` named group, only that part of
+ * the match is treated (and redacted) as the secret.
+ */
+type SecretRule = {
+  name: string
+  description: string
+  pattern: RegExp
+}
+
+/**
+ * A secret detected in a text
+ */
+type SecretFinding = {
+  /** Name of the rule that detected the secret */
+  rule: string
+  /** Path of the scanned file, if known */
+  file?: string
+  /** Line of the secret (1-based) */
+  line: number
+  /** Column of the secret (1-based) */
+  column: number
+  /** Masked preview of the secret, safe to print */
+  preview: string
+  /** Offset of the secret in the scanned text */
+  index: number
+  /** Length of the secret */
+  length: number
+}
+
+/**
+ * Minimum length and Shannon entropy (bits per character) of a token reported as a high-entropy string
+ */
+const HIGH_ENTROPY_MIN_LENGTH = 24
+const HIGH_ENTROPY_THRESHOLD = 4.0
+
+/**
+ * Rules in order of precedence: when matches overlap, the earlier rule wins
+ */
+const SECRET_RULES: SecretRule[] = [
+  {
+    name: 'private-key',
+    description: 'PEM encoded private key block',
+    pattern:
+      /-----BEGIN (?:[A-Z0-9]+ )*PRIVATE KEY(?: BLOCK)?-----(?:[\s\S]*?-----END (?:[A-Z0-9]+ )*PRIVATE KEY(?: BLOCK)?-----)?/g,
+  },
+  {
+    name: 'anthropic-api-key',
+    description: 'Anthropic API key',
+    pattern: /\bsk-ant-[A-Za-z0-9_-]{20,}/g,
+  },
+  {
+    name: 'openai-api-key',
+    description: 'OpenAI API key',
+    pattern: /\bsk-(?!ant-)(?:proj-|svcacct-|admin-)?[A-Za-z0-9_-]{20,}/g,
+  },
+  {
+    name: 'github-token',
+    description: 'GitHub personal access, OAuth or app token',
+    pattern: /\b(?:gh[pousr]_[A-Za-z0-9]{36,}|github_pat_[A-Za-z0-9_]{22,})\b/g,
+  },
+  {
+    name: 'aws-access-key-id',
+    description: 'AWS access key id',
+    pattern: /\b(?:AKIA|ASIA|ABIA|ACCA)[0-9A-Z]{16}\b/g,
+  },
+  {
+    name: 'aws-secret-access-key',
+    description: 'AWS secret access key assignment',
+    pattern: /aws_secret_access_key\s*[=:]\s*['"]?(?<secret>[A-Za-z0-9/+=]{40})\b/gi,
+  },
+  {
+    name: 'env-assignment',
+    description: '.env style assignment of a credential variable',
+    pattern:
+      /^[ \t]*(?:export[ \t]+)?[A-Za-z_][A-Za-z0-9_]*(?:KEY|TOKEN|SECRET|PASSWORD|PASSWD|PWD|CREDENTIALS?)[ \t]*[=:][ \t]*['"]?(?<secret>[^\s'"]{8,})/gim,
+  },
+]
+
+/**
+ * Matches candidate tokens for the high-entropy check
+ */
+const TOKEN_PATTERN = new RegExp(`[A-Za-z0-9+/=_-]{${HIGH_ENTROPY_MIN_LENGTH},}`, 'g')
+
+/**
+ * Calculates the Shannon entropy of a string in bits per character
+ *
+ * @param value The string to measure
+ * @returns The entropy, 0 for empty strings
+ */
+function shannonEntropy(value: string): number {
+  const counts = new Map<string, number>()
+  for (const char of value) counts.set(char, (counts.get(char) ?? 0) + 1)
+  return [...counts.values()].reduce((entropy, count) => {
+    const probability = count / value.length
+    return entropy - probability * Math.log2(probability)
+  }, 0)
+}
+
+/**
+ * Masks a secret so it can be shown in reports without leaking it
+ */
+function maskSecret(secret: string): string {
+  return secret.length <= 8
+    ? '*'.repeat(secret.length)
+    : `${secret.slice(0, 4)}…${secret.slice(-2)}`
+}
+
+/**
+ * Scans a text for secrets
+ *
+ * @param text The text to scan
+ * @param file Optional path of the scanned file, included in findings
+ * @returns Findings ordered by their position in the text
+ */
+function scanSecrets(text: string, file?: string): SecretFinding[] {
+  const matches: { rule: string; index: number; value: string }[] = []
+  const overlaps = (index: number, length: number) =>
+    matches.some((match) =>
+      index < match.index + match.value.length && match.index < index + length
+    )
+
+  for (const { name, pattern } of SECRET_RULES) {
+    for (const match of text.matchAll(pattern)) {
+      const value = match.groups?.secret ?? match[0]
+      const index = (match.index ?? 0) + match[0].lastIndexOf(value)
+      if (!overlaps(index, value.length)) matches.push({ rule: name, index, value })
+    }
+  }
+
+  for (const match of text.matchAll(TOKEN_PATTERN)) {
+    const value = match[0]
+    const index = match.index ?? 0
+    const isCandidate = /[0-9]/.test(value) && /[A-Za-z]/.test(value) &&
+      !overlaps(index, value.length)
+    if (isCandidate && shannonEntropy(value) >= HIGH_ENTROPY_THRESHOLD) {
+      matches.push({ rule: 'high-entropy-string', index, value })
+    }
+  }
+
+  return matches
+    .sort((a, b) => a.index - b.index)
+    .map(({ rule, index, value }) => {
+      const before = text.slice(0, index)
+      const line = before.split('\n').length
+      return {
+        rule,
+        ...(file ? { file } : {}),
+        line,
+        column: index - before.lastIndexOf('\n'),
+        preview: maskSecret(value),
+        index,
+        length: value.length,
+      }
+    })
+}
+
+/**
+ * Replaces every secret detected in a text with a `[REDACTED:<rule>]` marker
+ *
+ * @param text The text to redact
+ * @returns The redacted text and the findings that were redacted
+ */
+function redactSecrets(text: string): { text: string; findings: SecretFinding[] } {
+  const findings = scanSecrets(text)
+  const redacted = findings.reduceRight(
+    (result, { rule, index, length }) =>
+      `${result.slice(0, index)}[REDACTED:${rule}]${result.slice(index + length)}`,
+    text,
+  )
+  return { text: redacted, findings }
+}
+
+/**
+ * Formats a finding as `file:line:column rule (preview)` for reports
+ */
+function formatFinding(finding: SecretFinding): string {
+  const location = `${finding.file ? `${finding.file}:` : ''}${finding.line}:${finding.column}`
+  return `${location} ${finding.rule} (${finding.preview})`
+}
+
+export type { SecretFinding, SecretRule }
+export { formatFinding, redactSecrets, scanSecrets, SECRET_RULES, shannonEntropy }
@@ -0,0 +1,57 @@
+/**
+ * @module suggest
+ * @description "Did you mean" suggestions for mistyped names (commands, flags, config keys and
+ * environment variables), based on the edit distance between names.
+ *
+ * Basic usage:
+ * ```ts
+ * const suggestion = suggest('memroy', ['memory', 'config', 'help'])
+ * if (suggestion) console.log(`Did you mean "${suggestion}"?`)
+ * ```
+ */
+
+/**
+ * Calculates the Levenshtein distance between two strings: the number of single character
+ * insertions, deletions and substitutions needed to turn one into the other
+ *
+ * @param a The first string
+ * @param b The second string
+ * @returns The edit distance
+ */
+function levenshtein(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j)
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i]
+    for (let j = 1; j <= b.length; j++) {
+      const substitution = previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, substitution)
+    }
+    previous = current
+  }
+  return previous[b.length]
+}
+
+/**
+ * Finds the candidate closest to a mistyped name, ignoring case
+ *
+ * @param input The mistyped name
+ * @param candidates The valid names
+ * @param maxDistance Largest edit distance still suggested, by default a third of the input length (at least 2)
+ * @returns The closest candidate, or undefined if none is close enough
+ */
+function suggest(
+  input: string,
+  candidates: readonly string[],
+  maxDistance = Math.max(2, Math.floor(input.length / 3)),
+): string | undefined {
+  let best: { candidate: string; distance: number } | undefined
+  for (const candidate of candidates) {
+    const distance = levenshtein(input.toLowerCase(), candidate.toLowerCase())
+    if (distance <= maxDistance && (!best || distance < best.distance)) {
+      best = { candidate, distance }
+    }
+  }
+  return best?.candidate
+}
+
+export { levenshtein, suggest }
@@ -0,0 +1,43 @@
+/**
+ * @module token-estimator
+ * @description Cheap token count estimates for budgeting text that is sent to a model, without
+ * loading a tokenizer.
+ *
+ * Basic usage:
+ * - `estimateTokens(text)` to estimate how many tokens a text uses
+ * - `truncateToTokens(text, tokens)` to cut a text down to an estimated number of tokens
+ */
+
+/**
+ * Average number of characters per token for English prose and source code
+ */
+const CHARS_PER_TOKEN = 4
+
+/**
+ * Estimates the number of tokens in a text
+ *
+ * @param text The text to estimate
+ * @returns The estimated number of tokens, rounded up
+ */
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN)
+}
+
+/**
+ * Truncates a text to fit an estimated number of tokens, cutting at the last line break that fits
+ * (or mid-line if the first line alone does not fit)
+ *
+ * @param text The text to truncate
+ * @param tokens The maximum estimated number of tokens to keep
+ * @returns The truncated text, or the text unchanged if it already fits
+ */
+function truncateToTokens(text: string, tokens: number): string {
+  const maxLength = Math.max(0, tokens) * CHARS_PER_TOKEN
+  if (text.length <= maxLength) return text
+
+  const truncated = text.slice(0, maxLength)
+  const lastLineBreak = truncated.lastIndexOf('\n')
+  return lastLineBreak > 0 ? truncated.slice(0, lastLineBreak) : truncated
+}
+
+export { CHARS_PER_TOKEN, estimateTokens, truncateToTokens }
@@ -0,0 +1,32 @@
+# bash completion for New-Codebase, generated by "New-Codebase completions bash"
+_new_codebase_complete() {
+  local cur="${COMP_WORDS[COMP_CWORD]}" prev="${COMP_WORDS[COMP_CWORD-1]}"
+  local cmd_path='' word i
+  for ((i = 1; i < COMP_CWORD; i++)); do
+    word="${COMP_WORDS[i]}"
+    case "${cmd_path:+$cmd_path }$word" in
+      'help'|'memory'|'memory add'|'memory show'|'version') cmd_path="${cmd_path:+$cmd_path }$word" ;;
+    esac
+  done
+
+  case "$cmd_path:$prev" in
+    'memory:-s'|'memory:--scope') COMPREPLY=($(compgen -W 'workspace local user' -- "$cur")); return ;;
+    'memory add:-s'|'memory add:--scope') COMPREPLY=($(compgen -W 'workspace local user' -- "$cur")); return ;;
+    'memory show:-s'|'memory show:--scope') COMPREPLY=($(compgen -W 'workspace local user' -- "$cur")); return ;;
+    'memory show:--path') return ;;
+    *:'-p'|*:'--profile') COMPREPLY=($(compgen -W "$('New-Codebase' completions --complete profile $cmd_path 2>/dev/null)" -- "$cur")); return ;;
+    *:'--log-level') COMPREPLY=($(compgen -W 'debug info' -- "$cur")); return ;;
+  esac
+
+  local words='-p --profile --log-level --verbose'
+  case "$cmd_path" in
+    '') words+=' help memory version' ;;
+    'help') words+=' ' ;;
+    'memory') words+=' add show -s --scope --json' ;;
+    'memory add') words+=' -s --scope --json' ;;
+    'memory show') words+=' -s --scope --json --path' ;;
+    'version') words+=' ' ;;
+  esac
+  COMPREPLY=($(compgen -W "$words" -- "$cur"))
+}
+complete -o default -F _new_codebase_complete 'New-Codebase'
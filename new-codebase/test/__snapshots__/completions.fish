@@ -0,0 +1,31 @@
+# fish completion for New-Codebase, generated by "New-Codebase completions fish"
+function __new_codebase_using
+    set -l tokens (commandline -opc)
+    set -l cmd_path ''
+    set -e tokens[1]
+    for token in $tokens
+        set -l candidate (string trim -- "$cmd_path $token")
+        switch $candidate
+            case 'help' 'memory' 'memory add' 'memory show' 'version'
+                set cmd_path $candidate
+        end
+    end
+    test "$cmd_path" = "$argv"
+end
+
+complete -c 'New-Codebase' -f
+complete -c 'New-Codebase' -s p -l profile -x -a '(\'New-Codebase\' completions --complete profile)' -d 'Config profile to use'
+complete -c 'New-Codebase' -l log-level -x -a 'debug info' -d 'Log level'
+complete -c 'New-Codebase' -l verbose -d 'Log more'
+complete -c 'New-Codebase' -n '__new_codebase_using' -a 'help' -d 'Show help for a command'
+complete -c 'New-Codebase' -n '__new_codebase_using' -a 'memory' -d 'Manage memory files'
+complete -c 'New-Codebase' -n '__new_codebase_using' -a 'version' -d 'Show the version'
+complete -c 'New-Codebase' -n '__new_codebase_using \'memory\'' -a 'add' -d 'Add an entry'
+complete -c 'New-Codebase' -n '__new_codebase_using \'memory\'' -a 'show' -d 'Show the combined memory'
+complete -c 'New-Codebase' -n '__new_codebase_using \'memory\'' -s s -l scope -x -a 'workspace local user' -d 'Memory file to use'
+complete -c 'New-Codebase' -n '__new_codebase_using \'memory\'' -l json -d 'Print the memory as JSON, it\'s parsable'
+complete -c 'New-Codebase' -n '__new_codebase_using \'memory add\'' -s s -l scope -x -a 'workspace local user' -d 'Memory file to use'
+complete -c 'New-Codebase' -n '__new_codebase_using \'memory add\'' -l json -d 'Print the memory as JSON, it\'s parsable'
+complete -c 'New-Codebase' -n '__new_codebase_using \'memory show\'' -s s -l scope -x -a 'workspace local user' -d 'Memory file to use'
+complete -c 'New-Codebase' -n '__new_codebase_using \'memory show\'' -l json -d 'Print the memory as JSON, it\'s parsable'
+complete -c 'New-Codebase' -n '__new_codebase_using \'memory show\'' -l path -r -F -d 'File being worked on'
@@ -0,0 +1,94 @@
+import { assertEquals, assertRejects, assertThrows } from '@std/assert'
+import { CommandDisabledError, CommandPolicy } from '../src/utils/command-policy.ts'
+import {
+  type CommandContext,
+  type CommandDefinition,
+  CommandRouter,
+} from '../src/utils/command-router.ts'
+
+/**
+ * Creates a command definition that records the paths it is called with
+ */
+function recording(
+  name: string,
+  calls: string[][],
+  subcommands?: CommandDefinition[],
+): CommandDefinition {
+  return {
+    name,
+    command: ({ path }: CommandContext) => {
+      calls.push(path)
+    },
+    description: `The ${name} command`,
+    subcommands,
+  }
+}
+
+Deno.test('CommandPolicy - deny patterns match command names with globs', () => {
+  const policy = new CommandPolicy({ deny: ['memory *', '?ote', '** list'] })
+
+  assertEquals(policy.isPermitted(['memory']), true)
+  assertEquals(policy.isPermitted(['memory', 'add']), false)
+  assertEquals(policy.isPermitted(['note']), false)
+  assertEquals(policy.isPermitted(['notes']), true)
+  assertEquals(policy.isPermitted(['config', 'list']), false)
+  assertEquals(policy.isPermitted(['memory', 'rules', 'list']), false)
+  assertEquals(policy.isPermitted(['config', 'get']), true)
+
+  // A pattern matching a command also matches its subcommands
+  assertEquals(new CommandPolicy({ deny: ['mem*'] }).isPermitted(['memory', 'add']), false)
+
+  const error = assertThrows(
+    () => policy.assertPermitted(['memory', 'edit']),
+    CommandDisabledError,
+    'The "memory edit" command is disabled',
+  )
+  assertEquals((error as CommandDisabledError).path, ['memory', 'edit'])
+})
+
+Deno.test('CommandPolicy - deny wins over allow, and an empty allow list permits all', () => {
+  const policy = new CommandPolicy({ allow: ['memory', 'config get'], deny: ['memory edit'] })
+
+  assertEquals(policy.isPermitted(['memory', 'add']), true)
+  assertEquals(policy.isPermitted(['memory', 'edit']), false)
+  assertEquals(policy.isPermitted(['config', 'get']), true)
+  assertEquals(policy.isPermitted(['config']), false)
+  assertEquals(policy.isPermitted(['note']), false)
+  assertEquals(new CommandPolicy().isPermitted(['anything', 'at', 'all']), true)
+})
+
+Deno.test('CommandPolicy - filter keeps commands with permitted subcommands only', () => {
+  const routes = [
+    recording('note', []),
+    recording('config', [], [recording('get', []), recording('set', [])]),
+    recording('memory', [], [recording('add', [])]),
+  ]
+  const policy = new CommandPolicy({ allow: ['config get', 'note'] })
+
+  const filtered = policy.filter(routes)
+  assertEquals(filtered.map(({ name }) => name), ['note', 'config'])
+  assertEquals(filtered[1].subcommands?.map(({ name }) => name), ['get'])
+})
+
+Deno.test('CommandRouter - runs permitted commands only, and help whatever the policy', async () => {
+  const calls: string[][] = []
+  const commands = {
+    help: recording('help', calls),
+    note: recording('note', calls),
+    memory: recording('memory', calls, [recording('add', calls), recording('edit', calls)]),
+  }
+  const policy = new CommandPolicy({ allow: ['memory'], deny: ['memory edit', 'help'] })
+  const router = new CommandRouter(commands, 'help', { policy })
+
+  await router.route(['memory', 'add', 'note'], {})
+  await assertRejects(() => router.route(['memory', 'edit'], {}), CommandDisabledError)
+  await assertRejects(() => router.route(['note'], {}), CommandDisabledError)
+
+  // The help command, explicitly and as the default command
+  await router.route(['help'], {})
+  await router.route([], {})
+  assertEquals(calls, [['memory', 'add'], ['help'], ['help']])
+
+  assertEquals(router.getRoutes().map(({ name }) => name), ['help', 'memory'])
+  assertEquals(router.getRoutes()[1].subcommands?.map(({ name }) => name), ['add'])
+})
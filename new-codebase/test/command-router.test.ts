@@ -0,0 +1,197 @@
+import { assertEquals, assertRejects, assertThrows } from '@std/assert'
+import {
+  type CommandContext,
+  type CommandDefinition,
+  CommandRouter,
+  CommandUsageError,
+} from '../src/utils/command-router.ts'
+import { CommandDisabledError, CommandPolicy } from '../src/utils/command-policy.ts'
+import { EXIT_CODES } from '../src/utils/exit-codes.ts'
+
+/**
+ * Creates a command definition that records the contexts it is called with
+ */
+function recording(
+  name: string,
+  calls: CommandContext[],
+  definition: Partial<CommandDefinition> = {},
+): CommandDefinition {
+  return {
+    name,
+    command: (context) => {
+      calls.push(context)
+    },
+    description: `The ${name} command`,
+    ...definition,
+  }
+}
+
+/**
+ * Creates a router with `help`, `note` and `memory` (with `add`, `show` and `rules list`) commands
+ */
+function createRouter(
+  calls: CommandContext[],
+  options: ConstructorParameters<typeof CommandRouter>[2] = {},
+): CommandRouter {
+  return new CommandRouter(
+    {
+      help: recording('help', calls),
+      note: recording('note', calls),
+      memory: recording('memory', calls, {
+        options: { string: ['scope'], alias: { s: 'scope' } },
+        subcommands: [
+          recording('add', calls),
+          recording('show', calls, { options: { string: ['for'], collect: ['for'] } }),
+          recording('rules', calls, { subcommands: [recording('list', calls)] }),
+        ],
+      }),
+    },
+    'help',
+    options,
+  )
+}
+
+Deno.test('CommandRouter - routes nested subcommands with the remaining positional arguments', async () => {
+  const calls: CommandContext[] = []
+  const router = createRouter(calls)
+
+  const names = (args: string[]) => router.getRoutePath(args).map(({ name }) => name)
+  assertEquals(names(['memory', 'add', 'Use tabs']), ['memory', 'add'])
+  assertEquals(names(['memory', 'rules', 'list']), ['memory', 'rules', 'list'])
+  assertEquals(names(['memory', 'unknown']), ['memory'])
+  assertEquals(names(['--verbose']), ['help'])
+
+  await router.route(['memory', '-s', 'user', 'add', 'Use', 'tabs'], { app: 'test' })
+  const [{ args, path, app }] = calls
+  assertEquals(path, ['memory', 'add'])
+  assertEquals(args._, ['Use', 'tabs'])
+  // Options of the parent command apply to its subcommands
+  assertEquals(args.scope, 'user')
+  assertEquals(app, 'test')
+
+  await router.route(['memory', 'unknown', 'value'], {})
+  assertEquals(calls[1].path, ['memory'])
+  assertEquals(calls[1].args._, ['unknown', 'value'])
+})
+
+Deno.test('CommandRouter - slices positional arguments by index when a command name repeats', async () => {
+  const calls: CommandContext[] = []
+  const router = createRouter(calls)
+
+  await router.route(['memory', 'add', 'memory', 'add'], {})
+  assertEquals(calls[0].path, ['memory', 'add'])
+  assertEquals(calls[0].args._, ['memory', 'add'])
+
+  // A flag value equal to a command name is neither a subcommand nor a positional argument
+  await router.route(['memory', '--scope', 'add', 'add', 'note'], {})
+  assertEquals(calls[1].path, ['memory', 'add'])
+  assertEquals(calls[1].args._, ['note'])
+  assertEquals(calls[1].args.scope, 'add')
+
+  await router.route(['memory', 'show', '--for', 'show', '--for', 'memory', 'show'], {})
+  assertEquals(calls[2].path, ['memory', 'show'])
+  assertEquals(calls[2].args._, ['show'])
+  assertEquals(calls[2].args.for, ['show', 'memory'])
+
+  // Nor is one given before the command name
+  await router.route(['--tag', 'memory', 'memory', 'add', 'note'], {})
+  assertEquals(calls[3].path, ['memory', 'add'])
+  assertEquals(calls[3].args._, ['note'])
+})
+
+Deno.test('CommandRouter - validates flags against their metadata before running a command', async () => {
+  const calls: CommandContext[] = []
+  const router = new CommandRouter({
+    deploy: recording('deploy', calls, {
+      options: { string: ['env', 'count'], boolean: ['force'] },
+      flags: {
+        env: { description: 'Target environment', required: true },
+        count: { description: 'Number of instances', type: 'number', default: 1 },
+        force: { description: 'Skip checks', type: 'boolean' },
+      },
+    }),
+  })
+
+  await router.route(['deploy', '--env', 'prod', '--count', '3', '--force'], {})
+  assertEquals(calls[0].args.env, 'prod')
+  assertEquals(calls[0].args.count, 3)
+  assertEquals(calls[0].args.force, true)
+
+  await router.route(['deploy', '--env', 'prod'], {})
+  assertEquals(calls[1].args.count, 1)
+
+  const rejects = (args: string[], message: string) =>
+    assertRejects(() => router.route(args, {}), CommandUsageError, message)
+  await rejects(['deploy'], 'Missing required flag --env. Run "help deploy" for usage')
+  await rejects(['deploy', '--env', 'prod', '--count', 'many'], 'expects a number, got "many"')
+  await rejects(['deploy', '--env'], 'Flag --env requires a string value')
+  assertEquals(calls.length, 2)
+})
+
+Deno.test('CommandRouter - routes <command> --help to the help command', async () => {
+  const calls: CommandContext[] = []
+  await createRouter(calls).route(['memory', 'add', '--help', 'note'], {})
+  assertEquals(calls[0].path, ['help'])
+  assertEquals(calls[0].args._, ['memory', 'add'])
+
+  // Arguments following -- are not flags
+  await createRouter(calls).route(['note', '--', '--help'], {})
+  assertEquals(calls[1].path, ['note'])
+  assertEquals(calls[1].args._, ['--help'])
+})
+
+Deno.test('CommandRouter - rejects unknown commands and flags in strict mode, suggesting the closest', async () => {
+  const calls: CommandContext[] = []
+  const router = createRouter(calls, { strict: true, globalOptions: { string: ['profile'] } })
+  const rejects = async (args: string[], message: string) => {
+    const error = await assertRejects(() => router.route(args, {}), CommandUsageError, message)
+    assertEquals((error as CommandUsageError).exitCode, EXIT_CODES.USAGE.code)
+  }
+
+  await rejects(['memroy'], 'Unknown command "memroy". Did you mean "memory"? Run "help" for usage')
+  await rejects(['memory', 'ad'], 'Unknown memory subcommand "ad". Did you mean "add"?')
+  await rejects(['memory', 'ad'], 'Run "help memory" for usage')
+  await rejects(['memory', 'add', '--scop', 'user'], 'Unknown flag --scop. Did you mean --scope?')
+  await rejects(['memory', 'add', '--scope'], 'Flag --scope requires a value')
+  assertEquals(calls, [])
+
+  // Global and inherited flags are known to every command
+  await router.route(['--profile', 'ci', 'memory', 'add', '-s', 'user', 'note'], {})
+  assertEquals(calls[0].path, ['memory', 'add'])
+
+  // Without strict mode an unknown command falls back to the default command
+  await createRouter(calls).route(['memroy'], {})
+  assertEquals(calls[1].path, ['help'])
+})
+
+Deno.test('CommandRouter - help of a disabled command is disabled too', async () => {
+  const calls: CommandContext[] = []
+  const router = createRouter(calls, {
+    policy: new CommandPolicy({ deny: ['memory add', 'note'] }),
+  })
+
+  for (const args of [['help', 'memory', 'add'], ['memory', 'add', '--help'], ['help', 'note']]) {
+    const error = await assertRejects(() => router.route(args, {}), CommandDisabledError)
+    assertEquals((error as CommandDisabledError).exitCode, EXIT_CODES.DISABLED.code)
+  }
+
+  // Commands with permitted subcommands, and unknown commands, are left to the help command
+  await router.route(['help', 'memory'], {})
+  await router.route(['help', 'unknown'], {})
+  assertEquals(calls.map(({ args }) => args._), [['memory'], ['unknown']])
+})
+
+Deno.test('help - rejects an unknown command, suggesting the closest', async () => {
+  const { commandRouteDefinition: help } = await import('../src/commands/help.ts')
+  const routes = createRouter([]).getRoutes()
+  const show = (...names: string[]) => () =>
+    help.command({ args: { _: names }, path: ['help'], routes })
+
+  const error = assertThrows(
+    show('memory', 'ad'),
+    CommandUsageError,
+    'Unknown command "memory ad". Did you mean "add"? Run "help memory" for usage',
+  )
+  assertEquals((error as CommandUsageError).exitCode, EXIT_CODES.USAGE.code)
+  assertThrows(show('zzz'), CommandUsageError, 'Unknown command "zzz". Run "help" for usage')
+})
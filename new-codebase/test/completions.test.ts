@@ -0,0 +1,69 @@
+import { assertEquals } from '@std/assert'
+import { fromFileUrl } from '@std/path'
+import type { CommandDefinition } from '../src/utils/command-router.ts'
+import { describeFlags } from '../src/utils/command-help.ts'
+import { COMPLETION_SHELLS, generateCompletions } from '../src/utils/completions.ts'
+
+/**
+ * Whether the snapshots are rewritten instead of compared, with `deno test -A -- --update`
+ */
+const UPDATE = Deno.args.includes('--update')
+
+const noop = () => {}
+
+/**
+ * Routes covering subcommands, flags with aliases, static and dynamic values, and quoting
+ */
+const ROUTES: CommandDefinition[] = [
+  { name: 'help', command: noop, description: 'Show help for a command' },
+  {
+    name: 'memory',
+    command: noop,
+    description: 'Manage memory files\nSecond line of the description',
+    options: { string: ['scope'], boolean: ['json'], alias: { s: 'scope' } },
+    flags: {
+      scope: {
+        description: 'Memory file to use',
+        values: ['workspace', 'local', 'user'],
+      },
+      json: { description: "Print the memory as JSON, it's parsable", type: 'boolean' },
+    },
+    subcommands: [
+      { name: 'add', command: noop, description: 'Add an entry' },
+      {
+        name: 'show',
+        command: noop,
+        description: 'Show the combined memory',
+        options: { string: ['path'] },
+        flags: { path: { description: 'File being worked on', valueName: 'file' } },
+      },
+    ],
+  },
+  { name: 'version', command: noop, description: 'Show the version' },
+]
+
+const GLOBAL_FLAGS = describeFlags(
+  { string: ['profile', 'log-level'], boolean: ['verbose'], alias: { p: 'profile' } },
+  {
+    profile: { description: 'Config profile to use', values: () => ['review'] },
+    'log-level': { description: 'Log level', values: ['debug', 'info'] },
+    verbose: { description: 'Log more', type: 'boolean' },
+  },
+)
+
+for (const shell of COMPLETION_SHELLS) {
+  Deno.test(`generateCompletions - ${shell} script matches its snapshot`, async () => {
+    const script = generateCompletions(shell, {
+      programName: 'New-Codebase',
+      routes: ROUTES,
+      globalFlags: GLOBAL_FLAGS,
+    })
+
+    const snapshot = fromFileUrl(new URL(`./__snapshots__/completions.${shell}`, import.meta.url))
+    if (UPDATE) {
+      await Deno.writeTextFile(snapshot, script)
+    } else {
+      assertEquals(script, await Deno.readTextFile(snapshot))
+    }
+  })
+}
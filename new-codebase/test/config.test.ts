@@ -0,0 +1,347 @@
+import { assertEquals, assertRejects } from '@std/assert'
+import { stripAnsiCode } from '@std/fmt/colors'
+import { join } from '@std/path'
+import {
+  type ConfigChangeEvent,
+  type ConfigKey,
+  getAppliedDotenvFiles,
+  getConfig,
+  getConfigCandidates,
+  getConfigSource,
+  getConfigWarnings,
+  getCredentialStore,
+  getEnvName,
+  getProfiles,
+  onConfigChange,
+  type ProjectConfig,
+  reloadConfig,
+} from '../src/config.ts'
+
+const ANTHROPIC_KEY = 'sk-ant-REDACTED'
+
+type Workspace = {
+  /** Path of the workspace */
+  path: string
+  /** Path of the user config file */
+  userFile: string
+  /** Sets an environment variable until the end of the test, an empty value unsets it */
+  setEnv: (name: string, value: string) => void
+  /** Writes a file, relative to the workspace */
+  write: (name: string, text: string) => Promise<void>
+  /** Reloads the configuration of the workspace, with more config arguments */
+  reload: (config?: Partial<ProjectConfig>) => Promise<ProjectConfig>
+}
+
+/**
+ * Runs a test in a temporary workspace, with a temporary home directory for the user config file
+ * and credentials. The environment variables set by the test are restored and the configuration is
+ * reloaded afterwards.
+ */
+async function withWorkspace(fn: (workspace: Workspace) => Promise<void>): Promise<void> {
+  // Initialized before the environment of the test is set, reloadConfig reloads it from there
+  await getConfig()
+  const dir = await Deno.makeTempDir()
+  const path = join(dir, 'workspace')
+  const env = new Map<string, string | undefined>()
+  const setEnv = (name: string, value: string) => {
+    if (!env.has(name)) env.set(name, Deno.env.get(name))
+    if (value === '') Deno.env.delete(name)
+    else Deno.env.set(name, value)
+  }
+  // Values of the environment running the tests must not leak into the tested sources
+  for (const name of ['ANTHROPIC_API_KEY', 'OPENAI_API_KEY', 'DENO_ENV']) setEnv(name, '')
+  setEnv('HOME', join(dir, 'home'))
+
+  try {
+    await Deno.mkdir(join(dir, 'home', '.new-codebase'), { recursive: true })
+    await Deno.mkdir(path)
+    await fn({
+      path,
+      userFile: join(dir, 'home', '.new-codebase', 'new-codebase.json'),
+      setEnv,
+      write: (name, text) => Deno.writeTextFile(join(path, name), text),
+      reload: (config = {}) => reloadConfig({ APP_WORKSPACE_PATH: path, ...config }),
+    })
+  } finally {
+    for (const [name, value] of env) {
+      if (value === undefined) Deno.env.delete(name)
+      else Deno.env.set(name, value)
+    }
+    await reloadConfig({})
+    await Deno.remove(dir, { recursive: true })
+  }
+}
+
+/**
+ * Runs a function with the given command line arguments as Deno.args
+ */
+async function withArgs<T>(args: string[], fn: () => Promise<T>): Promise<T> {
+  const descriptor = Object.getOwnPropertyDescriptor(Deno, 'args')!
+  Object.defineProperty(Deno, 'args', { value: args, configurable: true })
+  try {
+    return await fn()
+  } finally {
+    Object.defineProperty(Deno, 'args', descriptor)
+  }
+}
+
+/**
+ * Captures what is printed to the console while running a function
+ */
+async function capturePrinted(fn: () => unknown): Promise<string[]> {
+  const log = console.log
+  const lines: string[] = []
+  console.log = (...data: unknown[]) => lines.push(stripAnsiCode(data.join(' ')))
+  try {
+    await fn()
+  } finally {
+    console.log = log
+  }
+  return lines
+}
+
+const sourceOf = (key: ConfigKey) => getConfigSource(key)?.source
+
+Deno.test('config - each source overrides the sources below it', async () => {
+  await withWorkspace(async ({ path, userFile, setEnv, write, reload }) => {
+    const workspaceFile = join(path, 'new-codebase.json')
+    const localFile = join(path, 'new-codebase.local.json')
+    await Deno.writeTextFile(userFile, '{ "APP_LOG_LEVEL": "warn" }\n')
+    await write('new-codebase.json', '{\n  // Shared\n  "APP_LOG_LEVEL": "error"\n}\n')
+    await write(
+      'new-codebase.local.json',
+      '{\n  "APP_LOG_LEVEL": "silent",\n  "profiles": { "ci": { "APP_LOG_LEVEL": "info" } }\n}\n',
+    )
+    await write('.env', 'NEW_CODEBASE_LOG_LEVEL=warn\n')
+    setEnv('NEW_CODEBASE_LOG_LEVEL', 'error')
+    setEnv('NEW_CODEBASE_PROFILE', 'ci')
+
+    const config = await withArgs(['--log-level', 'debug'], () => reload({ APP_LOG_LEVEL: 'warn' }))
+    assertEquals(config.APP_LOG_LEVEL, 'debug')
+    assertEquals(getConfigSource('APP_LOG_LEVEL'), { source: 'cli', origin: '--log-level' })
+    assertEquals(
+      getConfigCandidates('APP_LOG_LEVEL').map(({ source }) => source),
+      ['default', 'file', 'file', 'file', 'dotenv', 'env', 'profile', 'argument', 'cli'],
+    )
+    assertEquals(getConfigCandidates('APP_LOG_LEVEL').slice(1, 6).map(({ origin }) => origin), [
+      `${userFile}:1:3`,
+      `${workspaceFile}:3:3`,
+      `${localFile}:2:3`,
+      join(path, '.env'),
+      'NEW_CODEBASE_LOG_LEVEL',
+    ])
+
+    // Removing the sources from the top down
+    await reload({ APP_LOG_LEVEL: 'warn' })
+    assertEquals(sourceOf('APP_LOG_LEVEL'), 'argument')
+    assertEquals((await reload()).APP_LOG_LEVEL, 'info')
+    assertEquals(getConfigSource('APP_LOG_LEVEL'), {
+      source: 'profile',
+      origin: `ci ${localFile}:3:25`,
+    })
+    setEnv('NEW_CODEBASE_PROFILE', '')
+    assertEquals([(await reload()).APP_LOG_LEVEL, sourceOf('APP_LOG_LEVEL')], ['error', 'env'])
+    setEnv('NEW_CODEBASE_LOG_LEVEL', '')
+    assertEquals([(await reload()).APP_LOG_LEVEL, sourceOf('APP_LOG_LEVEL')], ['warn', 'dotenv'])
+    await Deno.remove(join(path, '.env'))
+    assertEquals((await reload()).APP_LOG_LEVEL, 'silent')
+    await Deno.remove(localFile)
+    assertEquals((await reload()).APP_LOG_LEVEL, 'error')
+    await Deno.remove(workspaceFile)
+    assertEquals((await reload()).APP_LOG_LEVEL, 'warn')
+    await Deno.remove(userFile)
+    assertEquals([(await reload()).APP_LOG_LEVEL, sourceOf('APP_LOG_LEVEL')], ['info', 'default'])
+  })
+})
+
+Deno.test('config - stored credentials are used when no other source sets the API key', async () => {
+  await withWorkspace(async ({ write, reload }) => {
+    const store = getCredentialStore({ APP_NAME: 'New-Codebase' })
+    await store.set('anthropic', ANTHROPIC_KEY)
+
+    assertEquals((await reload()).ANTHROPIC_API_KEY, ANTHROPIC_KEY)
+    assertEquals(getConfigSource('ANTHROPIC_API_KEY'), {
+      source: 'credentials',
+      origin: store.getPath(),
+    })
+
+    await write('new-codebase.json', '{ "ANTHROPIC_API_KEY": "sk-ant-REDACTED" }')
+    assertEquals((await reload()).ANTHROPIC_API_KEY, 'sk-ant-REDACTED')
+    assertEquals(
+      getConfigCandidates('ANTHROPIC_API_KEY').map(({ source }) => source),
+      ['default', 'file'],
+    )
+  })
+})
+
+Deno.test('config - memory show --for leaves APP_PATH unchanged', async () => {
+  await withWorkspace(async ({ reload }) => {
+    const { APP_PATH } = await reload()
+    const config = await withArgs(['memory', 'show', '--for', 'x'], () => reload())
+    assertEquals(config.APP_PATH, APP_PATH)
+    assertEquals(sourceOf('APP_PATH'), 'default')
+  })
+})
+
+Deno.test('config - .env files are overlaid by the files of the environment', async () => {
+  await withWorkspace(async ({ path, setEnv, write, reload }) => {
+    await write('.env', 'NEW_CODEBASE_ENV=staging\nNEW_CODEBASE_LOG_LEVEL=warn\n')
+    await write('.env.local', 'NEW_CODEBASE_LOG_LEVEL=error\nNEW_CODEBASE_MEMORY_TOKEN_BUDGET=10\n')
+    await write('.env.staging', 'NEW_CODEBASE_MEMORY_TOKEN_BUDGET=500\n')
+    await write('.env.staging.local', 'NEW_CODEBASE_LOG_LEVEL=debug\n')
+    await write('.env.production', 'NEW_CODEBASE_LOG_LEVEL=silent\n')
+
+    const config = await reload()
+    assertEquals(config.APP_ENV, 'staging')
+    assertEquals(config.APP_LOG_LEVEL, 'debug')
+    assertEquals(config.APP_MEMORY_TOKEN_BUDGET, 500)
+    assertEquals(getConfigSource('APP_ENV'), { source: 'dotenv', origin: join(path, '.env') })
+    assertEquals(getConfigSource('APP_MEMORY_TOKEN_BUDGET'), {
+      source: 'dotenv',
+      origin: join(path, '.env.staging'),
+    })
+    assertEquals(
+      getAppliedDotenvFiles(),
+      ['.env', '.env.local', '.env.staging', '.env.staging.local'].map((name) => join(path, name)),
+    )
+
+    // The environment selects the files of another environment, and overrides .env files
+    setEnv('NEW_CODEBASE_ENV', 'production')
+    assertEquals((await reload()).APP_LOG_LEVEL, 'silent')
+    assertEquals(getConfigSource('APP_ENV'), { source: 'env', origin: 'NEW_CODEBASE_ENV' })
+    setEnv('NEW_CODEBASE_LOG_LEVEL', 'info')
+    assertEquals([(await reload()).APP_LOG_LEVEL, sourceOf('APP_LOG_LEVEL')], ['info', 'env'])
+  })
+})
+
+Deno.test('config - env variables are prefixed with the name of the app', async () => {
+  await withWorkspace(async ({ setEnv, reload }) => {
+    setEnv('NEW_CODEBASE_LOG_LEVEL', 'warn')
+    setEnv('NEW_CODEBASE_LOG_LEVLE', 'debug')
+    setEnv('MY_APP_LOG_LEVEL', 'error')
+
+    assertEquals((await reload()).APP_LOG_LEVEL, 'warn')
+    assertEquals(getEnvName('APP_LOG_LEVEL'), 'NEW_CODEBASE_LOG_LEVEL')
+    assertEquals(getEnvName('ANTHROPIC_API_KEY'), 'ANTHROPIC_API_KEY')
+    assertEquals(
+      getConfigWarnings().filter((warning) => warning.includes('NEW_CODEBASE_')),
+      ['Unknown environment variable NEW_CODEBASE_LOG_LEVLE, did you mean NEW_CODEBASE_LOG_LEVEL?'],
+    )
+
+    assertEquals((await reload({ APP_NAME: 'My App' })).APP_LOG_LEVEL, 'error')
+    assertEquals(getEnvName('APP_LOG_LEVEL'), 'MY_APP_LOG_LEVEL')
+    assertEquals(getConfigSource('APP_LOG_LEVEL'), { source: 'env', origin: 'MY_APP_LOG_LEVEL' })
+  })
+})
+
+Deno.test('config - profiles overlay the values of the same profile in every config file', async () => {
+  await withWorkspace(async ({ userFile, setEnv, write, reload }) => {
+    await Deno.writeTextFile(
+      userFile,
+      JSON.stringify({
+        profiles: { review: { APP_MEMORY_TOKEN_BUDGET: 200, APP_MEMORY_SECRETS: 'redact' } },
+      }),
+    )
+    await write(
+      'new-codebase.json',
+      JSON.stringify({
+        APP_LOG_LEVEL: 'warn',
+        profiles: { review: { APP_LOG_LEVEL: 'debug', APP_MEMORY_TOKEN_BUDGET: 100 } },
+      }),
+    )
+    setEnv('NEW_CODEBASE_LOG_LEVEL', 'error')
+
+    const base = await reload()
+    assertEquals([base.APP_LOG_LEVEL, base.APP_MEMORY_TOKEN_BUDGET], ['error', 10000])
+    assertEquals(getProfiles(), ['review'])
+
+    setEnv('NEW_CODEBASE_PROFILE', 'review')
+    const config = await reload()
+    assertEquals(config.APP_LOG_LEVEL, 'debug')
+    assertEquals(config.APP_MEMORY_TOKEN_BUDGET, 100)
+    assertEquals(config.APP_MEMORY_SECRETS, 'redact')
+    assertEquals(sourceOf('APP_MEMORY_SECRETS'), 'profile')
+    assertEquals((await reload({ APP_LOG_LEVEL: 'info' })).APP_LOG_LEVEL, 'info')
+
+    await assertRejects(
+      () => reload({ APP_PROFILE: 'nope' }),
+      Error,
+      'Unknown profile "nope" from argument. Available profiles: review',
+    )
+  })
+})
+
+Deno.test('reloadConfig - updates the config in place and notifies about changed keys', async () => {
+  await withWorkspace(async ({ write, reload }) => {
+    await write('new-codebase.json', '{ "APP_LOG_LEVEL": "warn" }')
+    const config = await reload()
+    assertEquals(await getConfig(), config)
+
+    const all: ConfigChangeEvent[] = []
+    const logLevel: ConfigChangeEvent[] = []
+    const unsubscribeAll = onConfigChange([], (event) => all.push(event))
+    const unsubscribeLogLevel = onConfigChange('APP_LOG_LEVEL', (event) => logLevel.push(event))
+    try {
+      await write('new-codebase.json', '{ "APP_LOG_LEVEL": "warn", "APP_MEMORY_TOKEN_BUDGET": 5 }')
+      assertEquals(await reload(), config)
+      assertEquals(config.APP_MEMORY_TOKEN_BUDGET, 5)
+      assertEquals(all.map(({ changed }) => changed), [['APP_MEMORY_TOKEN_BUDGET']])
+      assertEquals(logLevel, [])
+
+      await write('new-codebase.json', '{ "APP_LOG_LEVEL": "debug" }')
+      await reload()
+      assertEquals(config.APP_LOG_LEVEL, 'debug')
+      assertEquals(logLevel.length, 1)
+      assertEquals(logLevel[0].changed, ['APP_LOG_LEVEL', 'APP_MEMORY_TOKEN_BUDGET'])
+      assertEquals(logLevel[0].previous.APP_LOG_LEVEL, 'warn')
+      assertEquals(all.length, 2)
+
+      // Nothing changed
+      await reload()
+      assertEquals(all.length, 2)
+
+      // An invalid configuration keeps the current one
+      await write('new-codebase.json', '{ "APP_LOG_LEVEL": "loud" }')
+      await assertRejects(() => reload(), Error, 'APP_LOG_LEVEL: invalid value "loud"')
+      assertEquals(config.APP_LOG_LEVEL, 'debug')
+    } finally {
+      unsubscribeAll()
+      unsubscribeLogLevel()
+    }
+
+    await write('new-codebase.json', '{ "APP_LOG_LEVEL": "error" }')
+    await reload()
+    assertEquals(all.length, 2)
+  })
+})
+
+Deno.test('config explain - shows the value of every source and the one used', async () => {
+  await withWorkspace(async ({ path, setEnv, write, reload }) => {
+    await write('new-codebase.json', '{\n  "APP_LOG_LEVEL": "warn"\n}\n')
+    setEnv('NEW_CODEBASE_LOG_LEVEL', 'error')
+    await reload()
+
+    const { commandRouteDefinition } = await import('../src/commands/config.ts')
+    const explain = commandRouteDefinition.subcommands!.find(({ name }) => name === 'explain')!
+    const run = (key: string) =>
+      capturePrinted(() =>
+        explain.command({ args: { _: [key] }, path: ['config', 'explain'], routes: [] })
+      )
+
+    const file = join(path, 'new-codebase.json')
+    const fileSource = `file ${file}:2:3`
+    const width = fileSource.length
+    assertEquals(await run('log-level'), [
+      'APP_LOG_LEVEL Log level for controlling verbosity',
+      'type string (one of: debug, info, warn, error, silent), env NEW_CODEBASE_LOG_LEVEL, flag --log-level',
+      `  ${'default'.padEnd(width)}  "info"  (overridden)`,
+      `  ${fileSource}  "warn"  (overridden)`,
+      `  ${'env NEW_CODEBASE_LOG_LEVEL'.padEnd(width)}  "error"  (used)`,
+    ])
+
+    assertEquals((await run('OPENAI_API_KEY')).slice(1), [
+      'type string, env OPENAI_API_KEY, no flag',
+      '  default  ""  (used)',
+    ])
+  })
+})
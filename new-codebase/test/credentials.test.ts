@@ -0,0 +1,87 @@
+import { assertEquals, assertRejects } from '@std/assert'
+import { exists } from '@std/fs'
+import { join } from '@std/path'
+import { CredentialStore } from '../src/credentials.ts'
+
+const ANTHROPIC_KEY = 'sk-ant-REDACTED'
+const OPENAI_KEY = 'sk-proj-AbCdEfGhIjKlMnOpQrStUvWx'
+
+/**
+ * Runs a test with the path of a credentials file in a temporary directory
+ */
+async function withCredentialsPath(fn: (path: string) => Promise<void>): Promise<void> {
+  const dir = await Deno.makeTempDir()
+  try {
+    await fn(join(dir, '.new-codebase', 'credentials.json'))
+  } finally {
+    await Deno.remove(dir, { recursive: true })
+  }
+}
+
+Deno.test('CredentialStore - stores encrypted keys and reads them back', async () => {
+  await withCredentialsPath(async (path) => {
+    const store = new CredentialStore(path, 'host:user')
+    assertEquals(await store.get('anthropic'), undefined)
+
+    await store.set('anthropic', ANTHROPIC_KEY)
+    await store.set('openai', OPENAI_KEY)
+    assertEquals(await store.get('anthropic'), ANTHROPIC_KEY)
+    assertEquals(await new CredentialStore(path, 'host:user').get('openai'), OPENAI_KEY)
+    assertEquals((await store.list()).map(({ provider }) => provider), ['anthropic', 'openai'])
+
+    // Only the encrypted key is written to the file
+    assertEquals((await Deno.readTextFile(path)).includes(ANTHROPIC_KEY), false)
+  })
+})
+
+Deno.test('CredentialStore - rejects keys in the wrong format', async () => {
+  await withCredentialsPath(async (path) => {
+    const store = new CredentialStore(path, 'host:user')
+    await assertRejects(() => store.set('openai', ANTHROPIC_KEY), Error, 'expected sk-...')
+    assertEquals(await exists(path), false)
+  })
+})
+
+Deno.test('CredentialStore - fails to decrypt keys stored with another secret', async () => {
+  await withCredentialsPath(async (path) => {
+    await new CredentialStore(path, 'host:user').set('anthropic', ANTHROPIC_KEY)
+
+    await assertRejects(
+      () => new CredentialStore(path, 'other-host:user').get('anthropic'),
+      Error,
+      'Cannot decrypt the stored Anthropic API key',
+    )
+  })
+})
+
+Deno.test('CredentialStore - removes the file with the last key', async () => {
+  await withCredentialsPath(async (path) => {
+    const store = new CredentialStore(path, 'host:user')
+    await store.set('anthropic', ANTHROPIC_KEY)
+    await store.set('openai', OPENAI_KEY)
+
+    assertEquals(await store.remove('anthropic'), true)
+    assertEquals(await store.remove('anthropic'), false)
+    assertEquals(await store.get('openai'), OPENAI_KEY)
+
+    assertEquals(await store.remove('openai'), true)
+    assertEquals(await exists(path), false)
+    assertEquals(await store.remove('openai'), false)
+  })
+})
+
+Deno.test({
+  name: 'CredentialStore - creates the file readable by the user only',
+  ignore: Deno.build.os === 'windows',
+  fn: async () => {
+    await withCredentialsPath(async (path) => {
+      const store = new CredentialStore(path, 'host:user')
+      await store.set('anthropic', ANTHROPIC_KEY)
+      assertEquals((await Deno.stat(path)).mode! & 0o777, 0o600)
+
+      // Replacing the file atomically keeps its permissions
+      await store.set('openai', OPENAI_KEY)
+      assertEquals((await Deno.stat(path)).mode! & 0o777, 0o600)
+    })
+  },
+})
@@ -0,0 +1,41 @@
+import { assertEquals, assertNotEquals } from '@std/assert'
+import { join } from '@std/path'
+import Memory, { MemoryFileType } from '../src/memory.ts'
+
+/**
+ * Runs a test in a temporary workspace, with a temporary home directory for user memory and history
+ */
+async function withWorkspace(fn: (workspace: string) => Promise<void>): Promise<void> {
+  const dir = await Deno.makeTempDir()
+  const home = Deno.env.get('HOME')
+  Deno.env.set('HOME', join(dir, 'home'))
+  try {
+    await Deno.mkdir(join(dir, 'workspace'))
+    await fn(join(dir, 'workspace'))
+  } finally {
+    if (home === undefined) Deno.env.delete('HOME')
+    else Deno.env.set('HOME', home)
+    await Deno.remove(dir, { recursive: true })
+  }
+}
+
+Deno.test('Memory - duplicate entries get their own ids and can be removed by id', async () => {
+  await withWorkspace(async (workspace) => {
+    const memory = new Memory(workspace)
+    const file = memory.getMemoryFile(MemoryFileType.WORKSPACE)!
+    await Deno.writeTextFile(file.path, '# Memory\n\n- Use tabs\n- Run tests\n- Use tabs\n')
+    await memory.loadAll()
+
+    const [first, second, third] = memory.listEntries(MemoryFileType.WORKSPACE)
+    assertEquals(third.id, `${first.id}-2`)
+    assertNotEquals(first.id, second.id)
+
+    // The exact id of the first entry is not ambiguous with the id of its duplicate
+    assertEquals(await memory.removeMemory(first.id, MemoryFileType.WORKSPACE), true)
+    assertEquals(await Deno.readTextFile(file.path), '# Memory\n\n- Run tests\n- Use tabs\n')
+
+    assertEquals(await memory.removeMemory(third.id, MemoryFileType.WORKSPACE), false)
+    assertEquals(await memory.removeMemory(first.id, MemoryFileType.WORKSPACE), true)
+    assertEquals(await Deno.readTextFile(file.path), '# Memory\n\n- Run tests\n')
+  })
+})